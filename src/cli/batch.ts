@@ -0,0 +1,61 @@
+import path from "path";
+import type { BatchJobResult, BatchResult } from "../types";
+import { colors } from "../utils";
+
+const HEADERS = [
+	"Job",
+	"Output",
+	"Files",
+	"Up to date",
+	"Warnings",
+	"Time",
+	"Status",
+];
+
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function row(job: BatchJobResult): string[] {
+	const { result, error } = job;
+	return [
+		job.name,
+		path.relative(process.cwd(), job.output) || ".",
+		result ? String(result.files.length) : "-",
+		result ? String(result.upToDate.length) : "-",
+		result ? String(result.warnings.length) : "-",
+		formatDuration(job.duration),
+		error ? `✖ ${error.code}` : "✔",
+	];
+}
+
+/**
+ * Prints one table row per batch job followed by the failure messages
+ * @param batch - Result of `generateBatch`
+ */
+export function printBatchSummary(batch: BatchResult) {
+	const rows = batch.jobs.map(row);
+	const widths = HEADERS.map((header, i) =>
+		Math.max(header.length, ...rows.map((cells) => cells[i].length)),
+	);
+	const line = (cells: string[]) =>
+		cells
+			.map((cell, i) => cell.padEnd(widths[i]))
+			.join("  ")
+			.trimEnd();
+
+	console.log(colors.cyan(line(HEADERS)));
+	console.log(colors.gray(widths.map((w) => "─".repeat(w)).join("  ")));
+	rows.forEach((cells, i) => {
+		const color = batch.jobs[i].error ? colors.red : colors.white;
+		console.log(color(line(cells)));
+	});
+
+	const failures = batch.jobs.filter((job) => job.error);
+	if (failures.length > 0) {
+		console.log();
+		for (const job of failures) {
+			console.log(colors.red(`✖ ${job.name}: ${job.error?.message}`));
+		}
+	}
+}
@@ -0,0 +1,60 @@
+import type { Command } from "commander";
+import { extractIcons } from "../../core/extract";
+import { colors } from "../../utils";
+import { consoleLogger } from "../logger";
+import { confirmAction } from "../prompt";
+
+/**
+ * Raw option values parsed by commander for the extract command
+ */
+interface ExtractCliOptions {
+	output?: string;
+	yes?: boolean;
+	dryRun?: boolean;
+}
+
+/**
+ * Registers `favigen extract`, which recovers the images of an ICO/CUR file as PNG
+ * @param program - Root commander program
+ */
+export function registerExtract(program: Command) {
+	program
+		.command("extract")
+		.description("Extract every image of a .ico or .cur file as PNG")
+		.argument("<file>", "ICO or CUR file, e.g. favicon.ico")
+		.option(
+			"-o, --output <dir>",
+			"Output directory (default: next to the input, named after it)",
+		)
+		.option("-y, --yes", "Overwrite existing files without asking")
+		.option("--dry-run", "Preview operations without writing files")
+		.action(async (file: string, options: ExtractCliOptions) => {
+			try {
+				const result = await extractIcons({
+					input: file,
+					output: options.output,
+					yes: options.yes,
+					dryRun: options.dryRun,
+					logger: consoleLogger,
+					prompt: confirmAction,
+				});
+
+				console.log();
+				for (const image of result.images) {
+					const hotspot = image.hotspot
+						? colors.gray(` hotspot ${image.hotspot.x},${image.hotspot.y}`)
+						: "";
+					console.log(
+						`  ${colors.white(image.name)} ${colors.gray(`${image.width}x${image.height} ${image.bitDepth}-bit ${image.format.toUpperCase()}`)}${hotspot}`,
+					);
+				}
+				console.log();
+				console.log(
+					colors.cyan(`📁 Images extracted to: ${colors.white(result.output)}`),
+				);
+			} catch (err) {
+				console.error(colors.red("✖ Error:"), (err as Error).message);
+				process.exit(1);
+			}
+		});
+}
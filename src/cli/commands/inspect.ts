@@ -0,0 +1,60 @@
+import type { Command } from "commander";
+import { inspectFavicons } from "../../core/inspect";
+import type { InspectLevel } from "../../types";
+import { colors } from "../../utils";
+
+/** Symbol and color per finding level */
+const LEVEL_STYLES: Record<InspectLevel, [string, (text: string) => string]> = {
+	ok: ["✔", colors.green],
+	warning: ["⚠", colors.yellow],
+	error: ["✖", colors.red],
+};
+
+/**
+ * Registers `favigen inspect` (alias `validate`), which audits an existing
+ * favicon setup and exits non-zero when it finds errors
+ * @param program - Root commander program
+ */
+export function registerInspect(program: Command) {
+	program
+		.command("inspect")
+		.alias("validate")
+		.description(
+			"Audit an output directory or an HTML file's favicon tags\n" +
+				"Exits with code 1 when errors are found (for CI)",
+		)
+		.argument(
+			"<target>",
+			"Output directory or HTML file, e.g. public/index.html",
+		)
+		.option(
+			"--root <dir>",
+			'Directory that root-relative URLs such as "/icons/x.png" resolve against',
+		)
+		.option("--quiet", "Only print warnings and errors")
+		.action(
+			async (target: string, options: { root?: string; quiet?: boolean }) => {
+				try {
+					const result = await inspectFavicons({ target, root: options.root });
+					console.log(colors.cyan(`🔍 Inspecting ${result.target}`));
+					console.log();
+					for (const finding of result.findings) {
+						if (options.quiet && finding.level === "ok") continue;
+						const [symbol, color] = LEVEL_STYLES[finding.level];
+						const file = finding.file ? `${colors.white(finding.file)}: ` : "";
+						console.log(`${color(symbol)} ${file}${finding.message}`);
+					}
+					console.log();
+					const summary = `${result.errors} error(s), ${result.warnings} warning(s)`;
+					if (result.errors > 0) {
+						console.log(colors.red(`✖ ${summary}`));
+						process.exit(1);
+					}
+					console.log(colors.green(`✅ ${summary}`));
+				} catch (err) {
+					console.error(colors.red("✖ Error:"), (err as Error).message);
+					process.exit(1);
+				}
+			},
+		);
+}
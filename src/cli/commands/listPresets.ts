@@ -0,0 +1,32 @@
+import type { Command } from "commander";
+import { PLATFORM_PRESETS } from "../../core/platforms";
+import { colors } from "../../utils";
+
+/**
+ * Registers `favigen list-presets`, which prints what each platform produces
+ * @param program - Root commander program
+ */
+export function registerListPresets(program: Command) {
+	program
+		.command("list-presets")
+		.description("Show the files each --platforms target produces")
+		.action(() => {
+			for (const preset of Object.values(PLATFORM_PRESETS)) {
+				console.log(
+					`${colors.cyan(colors.bold(preset.name))} ${colors.gray(`- ${preset.description}`)}`,
+				);
+				if (preset.sizes.length > 0) {
+					console.log(colors.gray(`  sizes: ${preset.sizes.join(", ")}`));
+				}
+				for (const file of preset.files) {
+					console.log(colors.white(`  • ${file}`));
+				}
+				console.log();
+			}
+			console.log(
+				colors.gray(
+					"💡 Combine targets with --platforms web,apple,pwa; shared files are generated once",
+				),
+			);
+		});
+}
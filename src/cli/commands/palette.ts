@@ -0,0 +1,95 @@
+import type { Command } from "commander";
+import { contrastRatio } from "../../core/palette";
+import { readSourceImage } from "../../core/source";
+import { detectColors } from "../../core/themeColor";
+import { FavigenError } from "../../errors";
+import { colors, isFile } from "../../utils";
+
+/**
+ * Raw option values parsed by commander for the palette command
+ */
+interface PaletteCliOptions {
+	count: number;
+	json?: boolean;
+}
+
+/** Prints a block of the given color on truecolor terminals */
+function swatch(rgb: [number, number, number]): string {
+	if (!process.stdout.isTTY) return "";
+	return `\u001b[48;2;${rgb.join(";")}m    \u001b[49m `;
+}
+
+/**
+ * Registers `favigen palette`, which prints the dominant colors of an image
+ * with their contrast, and the theme/background colors favigen would choose
+ * @param program - Root commander program
+ */
+export function registerPalette(program: Command) {
+	program
+		.command("palette")
+		.description(
+			"Show the dominant colors of an image and the theme/background colors favigen picks",
+		)
+		.argument("<input>", "Source image, e.g. logo.svg")
+		.option(
+			"-n, --count <n>",
+			"Number of colors to list",
+			(value) => Number.parseInt(value, 10),
+			5,
+		)
+		.option("--json", "Print the result as JSON")
+		.action(async (input: string, options: PaletteCliOptions) => {
+			try {
+				if (!Number.isInteger(options.count) || options.count < 1) {
+					throw new FavigenError(
+						"INVALID_OPTION",
+						"--count must be a positive integer",
+					);
+				}
+				if (!(await isFile(input))) {
+					throw new FavigenError(
+						"INPUT_NOT_FOUND",
+						`Input file not found or not a file: ${input}`,
+					);
+				}
+				const source = await readSourceImage(input);
+				const detected = await detectColors(
+					source.data ?? source.path,
+					options.count,
+				);
+				if (options.json) {
+					console.log(JSON.stringify(detected, null, 2));
+					return;
+				}
+
+				console.log(colors.cyan(`🎨 Palette of ${input}`));
+				console.log();
+				if (detected.palette.length === 0) {
+					console.log(colors.yellow("⚠ The image is fully transparent"));
+				}
+				for (const color of detected.palette) {
+					const onWhite = contrastRatio(color.rgb, [255, 255, 255]);
+					const onBlack = contrastRatio(color.rgb, [0, 0, 0]);
+					console.log(
+						`  ${swatch(color.rgb)}${colors.white(color.hex)} ${colors.gray(`${(color.share * 100).toFixed(1).padStart(5)}%  contrast ${onWhite.toFixed(1)}:1 on white, ${onBlack.toFixed(1)}:1 on black`)}`,
+					);
+				}
+				console.log();
+				console.log(
+					`${colors.cyan("theme_color:")}      ${colors.white(detected.themeColor)}`,
+				);
+				console.log(
+					`${colors.cyan("background_color:")} ${colors.white(detected.backgroundColor)} ${colors.gray(`(contrast ${detected.contrast.toFixed(1)}:1 against the logo)`)}`,
+				);
+				console.log();
+				console.log(
+					colors.gray(
+						"💡 Pick a different color with --theme-color and --background-color",
+					),
+				);
+			} catch (err) {
+				console.error(colors.red("✖ Error:"), (err as Error).message);
+				process.exit(1);
+			}
+		});
+}
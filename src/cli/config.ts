@@ -0,0 +1,154 @@
+import type { Command } from "commander";
+import { parseSourceMap } from "../core/options";
+import type {
+	FavigenConfig,
+	IcoFormat,
+	ManifestFields,
+	PreprocessOptions,
+	ResizeKernel,
+} from "../types";
+
+/**
+ * Raw option values parsed by commander for the generate command
+ */
+export interface CliOptions {
+	config?: string;
+	input?: string;
+	inputSmall?: string;
+	inputDark?: string;
+	inputMap?: string;
+	output: string;
+	platforms?: string;
+	sizes?: string;
+	kernel?: ResizeKernel;
+	sharpen?: boolean | number;
+	pngPalette?: boolean;
+	pngColors?: number;
+	pngDither?: number;
+	pngCompression?: number;
+	stripMetadata: boolean;
+	sizeBudget?: string;
+	formats?: string;
+	webpQuality?: number;
+	avifQuality?: number;
+	yes?: boolean;
+	dryRun: boolean;
+	force?: boolean;
+	backup?: boolean;
+	concurrency?: number;
+	watch?: boolean;
+	icoSizes?: string;
+	icoFormat?: IcoFormat;
+	cursor?: boolean;
+	hotspot?: string;
+	manifest: boolean;
+	manifestName?: string;
+	manifestMerge?: boolean;
+	startUrl?: string;
+	display?: string;
+	maskable?: boolean;
+	maskableBackground?: string;
+	maskablePadding?: number;
+	maskablePreview?: boolean;
+	monochrome?: boolean;
+	apple?: boolean;
+	appleBackground?: string;
+	applePadding?: number;
+	appleStartupImages?: boolean;
+	browserconfig: boolean;
+	tilePadding?: number;
+	tileImage?: boolean;
+	appName: string;
+	themeColor?: string;
+	backgroundColor?: string;
+	svgDark?: string;
+	dark?: string;
+	themeColorDark?: string;
+	trim?: boolean;
+	padding?: number;
+	fit?: PreprocessOptions["fit"];
+	iconBackground?: string;
+	radius?: number;
+	circle?: boolean;
+	html?: boolean | string;
+	inject?: string;
+	publicPath: string;
+}
+
+/** CLI option keys that map onto a differently shaped config key */
+const CLI_ONLY_KEYS = new Set([
+	"config",
+	"inputMap",
+	"html",
+	"manifestName",
+	"startUrl",
+	"display",
+	"hotspot",
+	"concurrency",
+	"watch",
+	"trim",
+	"padding",
+	"fit",
+	"iconBackground",
+	"radius",
+	"circle",
+]);
+
+/**
+ * Merges commander options with a loaded config file.
+ * Flags given on the command line win, then config values,
+ * then commander defaults.
+ * @param program - Parsed commander program
+ * @param options - Parsed option values
+ * @param config - Config file contents, if any
+ * @returns Merged settings
+ */
+export function mergeCliOptions(
+	program: Command,
+	options: CliOptions,
+	config: FavigenConfig | undefined,
+): FavigenConfig {
+	const defaults: FavigenConfig = {};
+	const explicit: FavigenConfig = {};
+	for (const [key, value] of Object.entries(options)) {
+		if (CLI_ONLY_KEYS.has(key)) continue;
+		const target =
+			program.getOptionValueSource(key) === "cli" ? explicit : defaults;
+		Object.assign(target, { [key]: value });
+	}
+
+	if (options.inputMap) {
+		explicit.sourceMap = parseSourceMap(options.inputMap);
+	}
+	if (typeof options.html === "string") {
+		explicit.htmlFile = options.html;
+	}
+	if (options.hotspot) {
+		explicit.cursorHotspot = options.hotspot;
+	}
+	if (options.manifestName) {
+		explicit.manifestFileName = options.manifestName;
+	}
+
+	const preprocess: PreprocessOptions = Object.fromEntries(
+		Object.entries({
+			trim: options.trim,
+			padding: options.padding,
+			fit: options.fit,
+			background: options.iconBackground,
+			radius: options.radius,
+			circle: options.circle,
+		}).filter(([, value]) => value !== undefined),
+	);
+	if (Object.keys(preprocess).length > 0) {
+		explicit.preprocess = { ...config?.preprocess, ...preprocess };
+	}
+
+	const manifestFields: ManifestFields = { ...config?.manifestFields };
+	if (options.startUrl) manifestFields.start_url = options.startUrl;
+	if (options.display) {
+		manifestFields.display = options.display as ManifestFields["display"];
+	}
+
+	return { ...defaults, ...config, ...explicit, manifestFields };
+}
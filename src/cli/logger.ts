@@ -0,0 +1,17 @@
+import type { Logger } from "../types";
+import { colors } from "../utils";
+
+/**
+ * Logger that prints coloured progress messages to the console
+ */
+export const consoleLogger: Logger = {
+	info(message) {
+		console.log(colors.cyan(message));
+	},
+	success(message) {
+		console.log(colors.green(message));
+	},
+	warn(message) {
+		console.log(colors.yellow(message));
+	},
+};
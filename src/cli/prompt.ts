@@ -0,0 +1,25 @@
+import readline from "readline";
+import { colors } from "../utils";
+
+function askQuestion(query: string): Promise<string> {
+	const rl = readline.createInterface({
+		input: process.stdin,
+		output: process.stdout,
+	});
+	return new Promise((resolve) => {
+		rl.question(colors.cyan(query), (ans) => {
+			rl.close();
+			resolve(ans);
+		});
+	});
+}
+
+/**
+ * Asks a yes/no question on the terminal
+ * @param message - Question to display
+ * @returns True if the answer starts with "y"
+ */
+export async function confirmAction(message: string): Promise<boolean> {
+	const ans = await askQuestion(`${message} (y/n): `);
+	return ans.trim().toLowerCase().startsWith("y");
+}
@@ -0,0 +1,189 @@
+import path from "path";
+import { htmlTag } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { renderOnCanvas } from "./preprocess";
+
+/** Size iOS and iPadOS use for home screen icons */
+export const APPLE_TOUCH_ICON_SIZE = 180;
+
+/** Conventional Apple touch icon file names, looked up by iOS at the site root */
+export const APPLE_TOUCH_ICON_NAMES = [
+	"apple-touch-icon.png",
+	"apple-touch-icon-precomposed.png",
+];
+
+/** Logo size on startup images as a fraction of the shorter screen side */
+const STARTUP_LOGO_RATIO = 0.3;
+
+/**
+ * Screen of an Apple device that shows startup images
+ */
+interface AppleDevice {
+	/** CSS pixel width in portrait */
+	width: number;
+	/** CSS pixel height in portrait */
+	height: number;
+	/** Device pixel ratio */
+	ratio: number;
+}
+
+/** Current iPhone and iPad screen resolutions, deduplicated */
+export const APPLE_DEVICES: AppleDevice[] = [
+	{ width: 440, height: 956, ratio: 3 }, // iPhone 16 Pro Max
+	{ width: 402, height: 874, ratio: 3 }, // iPhone 16 Pro
+	{ width: 430, height: 932, ratio: 3 }, // iPhone 16 Plus, 15 Pro Max, 14 Pro Max
+	{ width: 393, height: 852, ratio: 3 }, // iPhone 16, 15, 15 Pro, 14 Pro
+	{ width: 428, height: 926, ratio: 3 }, // iPhone 14 Plus, 13 Pro Max, 12 Pro Max
+	{ width: 390, height: 844, ratio: 3 }, // iPhone 14, 13, 13 Pro, 12, 12 Pro
+	{ width: 375, height: 812, ratio: 3 }, // iPhone 13 mini, 12 mini, 11 Pro, XS, X
+	{ width: 414, height: 896, ratio: 3 }, // iPhone 11 Pro Max, XS Max
+	{ width: 414, height: 896, ratio: 2 }, // iPhone 11, XR
+	{ width: 414, height: 736, ratio: 3 }, // iPhone 8 Plus
+	{ width: 375, height: 667, ratio: 2 }, // iPhone SE, 8
+	{ width: 320, height: 568, ratio: 2 }, // iPhone SE (1st gen)
+	{ width: 1032, height: 1376, ratio: 2 }, // iPad Pro 13"
+	{ width: 1024, height: 1366, ratio: 2 }, // iPad Pro 12.9"
+	{ width: 834, height: 1210, ratio: 2 }, // iPad Pro 11" (M4)
+	{ width: 834, height: 1194, ratio: 2 }, // iPad Pro 11"
+	{ width: 820, height: 1180, ratio: 2 }, // iPad Air 10.9", iPad 10.9"
+	{ width: 834, height: 1112, ratio: 2 }, // iPad Air 10.5"
+	{ width: 810, height: 1080, ratio: 2 }, // iPad 10.2"
+	{ width: 744, height: 1133, ratio: 2 }, // iPad mini 8.3"
+	{ width: 768, height: 1024, ratio: 2 }, // iPad mini 7.9", iPad 9.7"
+];
+
+/**
+ * A startup image for one device and orientation
+ */
+export interface StartupImage {
+	fileName: string;
+	width: number;
+	height: number;
+	media: string;
+}
+
+/**
+ * Lists startup images for every device in both orientations
+ * @returns Startup image descriptors
+ */
+export function appleStartupImages(): StartupImage[] {
+	const images: StartupImage[] = [];
+	for (const device of APPLE_DEVICES) {
+		for (const orientation of ["portrait", "landscape"] as const) {
+			const portrait = orientation === "portrait";
+			const width = (portrait ? device.width : device.height) * device.ratio;
+			const height = (portrait ? device.height : device.width) * device.ratio;
+			images.push({
+				fileName: `apple-splash-${width}x${height}.png`,
+				width,
+				height,
+				media: `(device-width: ${device.width}px) and (device-height: ${device.height}px) and (-webkit-device-pixel-ratio: ${device.ratio}) and (orientation: ${orientation})`,
+			});
+		}
+	}
+	return images;
+}
+
+async function writeAppleImage(
+	ctx: GenerationContext,
+	fileName: string,
+	render: () => Promise<Buffer>,
+) {
+	const outPath = path.join(ctx.options.output, fileName);
+	if ((await prepareWrite(ctx, outPath)) !== "write") return;
+	await writeFileSafe(ctx, outPath, await optimizePng(ctx, await render()));
+	ctx.logger.success(`✔ Generated ${fileName}`);
+}
+
+/**
+ * Writes the Apple touch icons flattened onto an opaque background and,
+ * optionally, the iOS/iPadOS startup images
+ * @param ctx - Generation context
+ * @param background - Background color (iOS renders transparency as black)
+ */
+export async function generateAppleIcons(
+	ctx: GenerationContext,
+	background: string,
+) {
+	const { options, logger } = ctx;
+	logger.info("⏳ Generating Apple touch icons...");
+	const size = APPLE_TOUCH_ICON_SIZE;
+	const inner = size * (1 - 2 * options.applePadding);
+	let icon: Promise<Buffer> | undefined;
+	const renderIcon = () =>
+		renderOnCanvas(
+			ctx,
+			{ width: size, height: size, background, opaque: true },
+			{ width: inner, height: inner },
+			options.preprocess.apple,
+		);
+	for (const fileName of APPLE_TOUCH_ICON_NAMES) {
+		await writeAppleImage(ctx, fileName, () => {
+			icon ??= renderIcon();
+			return icon;
+		});
+	}
+
+	if (!options.appleStartupImages) return;
+	const images = appleStartupImages();
+	logger.info(`⏳ Generating ${images.length} Apple startup images...`);
+	for (const image of images) {
+		const logo = Math.min(image.width, image.height) * STARTUP_LOGO_RATIO;
+		await writeAppleImage(ctx, image.fileName, () =>
+			renderOnCanvas(
+				ctx,
+				{ ...image, background, opaque: true },
+				{ width: logo, height: logo },
+				options.preprocess.apple,
+			),
+		);
+	}
+}
+
+/**
+ * Builds the <head> tags for the Apple assets
+ * @param ctx - Generation context
+ * @param href - Maps a file name to its public URL
+ * @param linked - Whether a file was produced and may be linked
+ * @returns Tags, one per line
+ */
+export function buildAppleTags(
+	ctx: GenerationContext,
+	href: (fileName: string) => string,
+	linked: (fileName: string) => boolean,
+): string[] {
+	const { options } = ctx;
+	const tags: string[] = [];
+	if (linked(APPLE_TOUCH_ICON_NAMES[0])) {
+		tags.push(
+			htmlTag("link", {
+				rel: "apple-touch-icon",
+				sizes: `${APPLE_TOUCH_ICON_SIZE}x${APPLE_TOUCH_ICON_SIZE}`,
+				href: href(APPLE_TOUCH_ICON_NAMES[0]),
+			}),
+		);
+	}
+	tags.push(
+		htmlTag("meta", {
+			name: "apple-mobile-web-app-title",
+			content: options.appName,
+		}),
+	);
+	if (options.appleStartupImages) {
+		tags.push(
+			htmlTag("meta", { name: "apple-mobile-web-app-capable", content: "yes" }),
+		);
+		for (const image of appleStartupImages()) {
+			if (!linked(image.fileName)) continue;
+			tags.push(
+				htmlTag("link", {
+					rel: "apple-touch-startup-image",
+					media: image.media,
+					href: href(image.fileName),
+				}),
+			);
+		}
+	}
+	return tags;
+}
@@ -0,0 +1,163 @@
+import os from "os";
+import path from "path";
+import { FavigenError, isFavigenError } from "../errors";
+import type {
+	BatchJob,
+	BatchJobResult,
+	BatchOptions,
+	BatchResult,
+	Logger,
+	PromptFn,
+} from "../types";
+import { runGeneration } from "./generate";
+import { DEFAULT_OUTPUT } from "./options";
+import type { SourceCache } from "./source";
+
+/** Upper bound for the default concurrency; sharp already uses several threads per image */
+const MAX_DEFAULT_CONCURRENCY = 4;
+
+function jobName(job: BatchJob, index: number): string {
+	return (
+		job.name ??
+		(job.output ? path.basename(path.resolve(job.output)) : `job ${index + 1}`)
+	);
+}
+
+function prefixLogger(logger: Logger, name: string): Logger {
+	return {
+		info: (message) => logger.info(`[${name}] ${message}`),
+		success: (message) => logger.success(`[${name}] ${message}`),
+		warn: (message) => logger.warn(`[${name}] ${message}`),
+	};
+}
+
+/**
+ * Lists the absolute paths of every source file a job reads
+ */
+function jobSources(job: BatchJob): string[] {
+	return [
+		job.input,
+		job.inputSmall,
+		job.inputDark,
+		...Object.values(job.sourceMap ?? {}),
+	]
+		.filter((file): file is string => typeof file === "string")
+		.map((file) => path.resolve(file));
+}
+
+/**
+ * Wraps a prompt so questions from concurrent jobs are asked one at a time
+ */
+function serializePrompt(prompt: PromptFn): PromptFn {
+	let queue: Promise<unknown> = Promise.resolve();
+	return (message) => {
+		const answer = queue.then(() => prompt(message));
+		queue = answer.catch(() => {});
+		return answer;
+	};
+}
+
+/**
+ * Generates several icon sets in one process, a bounded number at a time.
+ * A source used by several jobs is read and decoded once, and kept until
+ * the last of them finishes. Jobs writing to the same output directory run
+ * one after another, in order, since they share its files and build cache.
+ * A failing job is recorded without stopping the others.
+ * @param options - Jobs and concurrency
+ * @returns Per-job outcomes and the number of failures
+ * @throws FavigenError if the batch options themselves are invalid
+ */
+export async function generateBatch(
+	options: BatchOptions,
+): Promise<BatchResult> {
+	const concurrency =
+		options.concurrency ?? Math.min(os.cpus().length, MAX_DEFAULT_CONCURRENCY);
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid concurrency: ${options.concurrency} (expected a positive integer)`,
+		);
+	}
+
+	const sources: SourceCache = new Map();
+	// Jobs still to run per source, so a source is released after its last job
+	const pending = new Map<string, number>();
+	for (const job of options.jobs) {
+		for (const file of new Set(jobSources(job))) {
+			pending.set(file, (pending.get(file) ?? 0) + 1);
+		}
+	}
+	const release = (job: BatchJob) => {
+		for (const file of new Set(jobSources(job))) {
+			const left = (pending.get(file) ?? 1) - 1;
+			pending.set(file, left);
+			if (left === 0) sources.delete(file);
+		}
+	};
+
+	const prompts = new Map<PromptFn, PromptFn>();
+	const runJob = async (job: BatchJob, index: number) => {
+		const name = jobName(job, index);
+		const start = Date.now();
+		const outcome: BatchJobResult = {
+			name,
+			output: path.resolve(job.output ?? DEFAULT_OUTPUT),
+			duration: 0,
+		};
+		let prompt = job.prompt && prompts.get(job.prompt);
+		if (job.prompt && !prompt) {
+			prompt = serializePrompt(job.prompt);
+			prompts.set(job.prompt, prompt);
+		}
+		try {
+			outcome.result = await runGeneration(
+				{
+					...job,
+					logger: job.logger && prefixLogger(job.logger, name),
+					prompt: prompt && ((message) => prompt(`[${name}] ${message}`)),
+				},
+				{ sources },
+			);
+			outcome.output = outcome.result.output;
+		} catch (err) {
+			outcome.error = isFavigenError(err)
+				? err
+				: new FavigenError(
+						"GENERATION_FAILED",
+						err instanceof Error ? err.message : String(err),
+					);
+		}
+		release(job);
+		outcome.duration = Date.now() - start;
+		options.onJobComplete?.(outcome);
+		return outcome;
+	};
+
+	// Job indexes per output directory, in batch order
+	const groups = new Map<string, number[]>();
+	options.jobs.forEach((job, index) => {
+		const output = path.resolve(job.output ?? DEFAULT_OUTPUT);
+		const group = groups.get(output);
+		if (group) group.push(index);
+		else groups.set(output, [index]);
+	});
+	const queue = [...groups.values()];
+
+	const results: BatchJobResult[] = new Array(options.jobs.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < queue.length) {
+			for (const index of queue[next++]) {
+				results[index] = await runJob(options.jobs[index], index);
+			}
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, queue.length) }, worker),
+	);
+
+	return {
+		jobs: results,
+		failed: results.filter((job) => job.error).length,
+	};
+}
@@ -0,0 +1,201 @@
+import path from "path";
+import type { TileName, TilePaddingKey } from "../types";
+import { escapeAttribute } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { renderOnCanvas } from "./preprocess";
+
+/**
+ * A Windows tile image referenced from browserconfig.xml
+ */
+interface TileSpec {
+	name: TilePaddingKey;
+	width: number;
+	height: number;
+	/**
+	 * Default padding as fractions of the tile height. Medium and larger
+	 * tiles reserve room at the bottom for the app name label, so the
+	 * logo sits in the upper part of the tile.
+	 */
+	padding: { top: number; bottom: number };
+}
+
+/** Tiles written to browserconfig.xml, following Microsoft's guidance */
+export const TILES: Array<TileSpec & { name: TileName }> = [
+	{
+		name: "square70x70",
+		width: 70,
+		height: 70,
+		padding: { top: 0.15, bottom: 0.15 },
+	},
+	{
+		name: "square150x150",
+		width: 150,
+		height: 150,
+		padding: { top: 0.15, bottom: 0.3 },
+	},
+	{
+		name: "wide310x150",
+		width: 310,
+		height: 150,
+		padding: { top: 0.15, bottom: 0.3 },
+	},
+	{
+		name: "square310x310",
+		width: 310,
+		height: 310,
+		padding: { top: 0.2, bottom: 0.3 },
+	},
+];
+
+/** Size of the legacy Windows 8 TileImage */
+export const TILE_IMAGE_SIZE = 144;
+
+/** The legacy Windows 8 TileImage, padded like the small tile by default */
+export const TILE_IMAGE: TileSpec = {
+	name: "tileImage",
+	width: TILE_IMAGE_SIZE,
+	height: TILE_IMAGE_SIZE,
+	padding: { top: 0.15, bottom: 0.15 },
+};
+
+/** Polling frequencies (minutes) Windows accepts for notifications/badges */
+export const POLLING_FREQUENCIES = [30, 60, 360, 720, 1440];
+
+/**
+ * File name of a tile image
+ * @param width - Tile width
+ * @param height - Tile height
+ */
+export function tileFileName(width: number, height: number): string {
+	return `mstile-${width}x${height}.png`;
+}
+
+/**
+ * Renders a tile by centring the logo on a TileColor canvas.
+ * An explicit padding applies evenly to every side; side padding
+ * otherwise matches the top padding.
+ * @param ctx - Generation context
+ * @param tile - Tile dimensions and default padding
+ * @param tileColor - Canvas color
+ * @returns PNG buffer
+ */
+async function renderTile(
+	ctx: GenerationContext,
+	tile: TileSpec,
+	tileColor: string,
+): Promise<Buffer> {
+	const override = ctx.options.tilePadding[tile.name];
+	const padding =
+		override !== undefined ? { top: override, bottom: override } : tile.padding;
+	const top = Math.round(tile.height * padding.top);
+	const boxHeight = Math.max(
+		1,
+		tile.height - top - Math.round(tile.height * padding.bottom),
+	);
+	const sidePadding = Math.round(tile.height * padding.top);
+	const boxWidth = Math.max(1, tile.width - 2 * sidePadding);
+
+	return renderOnCanvas(
+		ctx,
+		{ width: tile.width, height: tile.height, background: tileColor },
+		{ width: boxWidth, height: boxHeight, top },
+		ctx.options.preprocess.windows,
+	);
+}
+
+async function writeTile(
+	ctx: GenerationContext,
+	fileName: string,
+	render: () => Promise<Buffer>,
+) {
+	const full = path.join(ctx.options.output, fileName);
+	if ((await prepareWrite(ctx, full)) !== "write") return;
+	ctx.logger.info(`⏳ Generating ${fileName} for browserconfig...`);
+	await writeFileSafe(ctx, full, await optimizePng(ctx, await render()));
+	ctx.logger.success(`✔ Generated ${fileName}`);
+}
+
+function pollingXml(
+	element: "notification" | "badge",
+	uris: string[],
+	frequency: number | undefined,
+	cycle?: number,
+): string {
+	const lines = uris.map(
+		(uri, i) =>
+			`      <polling-uri${i === 0 ? "" : i + 1} src="${escapeAttribute(uri)}"/>`,
+	);
+	if (frequency !== undefined) {
+		lines.push(`      <frequency>${frequency}</frequency>`);
+	}
+	if (cycle !== undefined) {
+		lines.push(`      <cycle>${cycle}</cycle>`);
+	}
+	return `    <${element}>\n${lines.join("\n")}\n    </${element}>`;
+}
+
+/**
+ * Writes browserconfig.xml and its Windows tile images. Each tile gets its
+ * own up-to-date and overwrite decision, so declining to overwrite the XML
+ * still updates the tiles.
+ * @param ctx - Generation context
+ * @param themeColor - Tile background color
+ */
+export async function generateBrowserConfig(
+	ctx: GenerationContext,
+	themeColor: string,
+) {
+	const { options, logger } = ctx;
+	for (const tile of TILES) {
+		await writeTile(ctx, tileFileName(tile.width, tile.height), () =>
+			renderTile(ctx, tile, themeColor),
+		);
+	}
+	if (options.tileImage) {
+		await writeTile(ctx, tileFileName(TILE_IMAGE_SIZE, TILE_IMAGE_SIZE), () =>
+			renderTile(ctx, TILE_IMAGE, themeColor),
+		);
+	}
+
+	const xmlPath = path.join(options.output, "browserconfig.xml");
+	if ((await prepareWrite(ctx, xmlPath)) !== "write") return;
+	logger.info("⏳ Writing browserconfig.xml...");
+	const tileLines = TILES.map(
+		(tile) =>
+			`      <${tile.name}logo src="${tileFileName(tile.width, tile.height)}"/>`,
+	);
+	if (options.tileImage) {
+		tileLines.push(
+			`      <TileImage src="${tileFileName(TILE_IMAGE_SIZE, TILE_IMAGE_SIZE)}"/>`,
+		);
+	}
+	tileLines.push(`      <TileColor>${escapeAttribute(themeColor)}</TileColor>`);
+
+	const sections = [`    <tile>\n${tileLines.join("\n")}\n    </tile>`];
+	const { tileNotification, tileBadge } = options;
+	if (tileNotification) {
+		sections.push(
+			pollingXml(
+				"notification",
+				tileNotification.pollingUris.slice(0, 5),
+				tileNotification.frequency,
+				tileNotification.cycle,
+			),
+		);
+	}
+	if (tileBadge) {
+		sections.push(
+			pollingXml("badge", [tileBadge.pollingUri], tileBadge.frequency),
+		);
+	}
+
+	const xml = `<?xml version="1.0" encoding="utf-8"?>
+<browserconfig>
+  <msapplication>
+${sections.join("\n")}
+  </msapplication>
+</browserconfig>`;
+	await writeFileSafe(ctx, xmlPath, xml);
+	logger.success("✔ Generated browserconfig.xml");
+}
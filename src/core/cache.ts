@@ -0,0 +1,157 @@
+import { createHash } from "crypto";
+import path from "path";
+import { version } from "../../package.json";
+import { readFile, readJson, writeJson } from "../utils";
+import type { ResolvedOptions, WriteContext } from "./context";
+import { stageFile } from "./transaction";
+
+/** Cache file written to the output directory */
+export const CACHE_FILE_NAME = ".favigen-cache.json";
+
+/**
+ * Recorded state of one output file
+ */
+interface CacheEntry {
+	/** Hash of everything the file was generated from */
+	key: string;
+	/** Hash of the file contents as written */
+	hash: string;
+}
+
+/**
+ * Incremental build state for a generation run
+ */
+export interface BuildCache {
+	/** Entries loaded from the cache file, keyed by output name */
+	previous: Record<string, CacheEntry>;
+	/** Entries recorded during this run */
+	next: Record<string, CacheEntry>;
+	/** Input keys computed for files about to be written */
+	pending: Map<string, string>;
+	/** Hash of the favigen version, source bytes and options shared by every file */
+	base: string;
+	/** Ignore previous entries and regenerate everything */
+	force: boolean;
+}
+
+/** Options that do not influence the generated files */
+const IGNORED_OPTIONS = new Set<string>([
+	"yes",
+	"dryRun",
+	"force",
+	"backup",
+	"source",
+	"extraSources",
+	"sourceMap",
+	"darkSource",
+]);
+
+function hash(data: Buffer | string): string {
+	return createHash("sha256").update(data).digest("hex");
+}
+
+function entryName(ctx: WriteContext, filePath: string): string {
+	return path.relative(ctx.options.output, filePath);
+}
+
+/**
+ * Reads the cache file and fingerprints the run's shared inputs
+ * @param options - Resolved options
+ * @param themeColor - Theme color used for the run
+ * @param backgroundColor - Background color used for the run
+ * @returns Cache state; empty when the file is missing or unreadable
+ */
+export async function loadBuildCache(
+	options: ResolvedOptions,
+	themeColor: string,
+	backgroundColor: string,
+): Promise<BuildCache> {
+	const stored = await readJson<{
+		version?: string;
+		files?: Record<string, CacheEntry>;
+	}>(path.join(options.output, CACHE_FILE_NAME)).catch(() => null);
+
+	const sources = [
+		options.source,
+		...options.extraSources,
+		...options.sourceMap.values(),
+		...(options.darkSource ? [options.darkSource] : []),
+	];
+	const sourceHashes = await Promise.all(
+		sources.map(async (source) => hash(await readFile(source.path))),
+	);
+	const fingerprint = JSON.stringify({
+		version,
+		sources: sourceHashes,
+		sourceMap: [...options.sourceMap.keys()],
+		themeColor,
+		backgroundColor,
+		options: Object.fromEntries(
+			Object.entries(options).filter(([key]) => !IGNORED_OPTIONS.has(key)),
+		),
+	});
+
+	return {
+		previous: stored?.version === version ? (stored.files ?? {}) : {},
+		next: {},
+		pending: new Map(),
+		base: hash(fingerprint),
+		force: options.force,
+	};
+}
+
+/**
+ * Checks whether an output file is unchanged since the last run: same
+ * inputs, and the file on disk still matches what was written
+ * @param ctx - Generation context
+ * @param filePath - Output file
+ * @param inputs - File-specific inputs such as the size
+ * @returns True if the file can be kept as it is
+ */
+export async function isUpToDate(
+	ctx: WriteContext,
+	filePath: string,
+	inputs: unknown,
+): Promise<boolean> {
+	const cache = ctx.cache;
+	if (!cache) return false;
+	const name = entryName(ctx, filePath);
+	const key = hash(`${cache.base}:${name}:${JSON.stringify(inputs ?? null)}`);
+	cache.pending.set(filePath, key);
+
+	const entry = cache.previous[name];
+	if (cache.force || !entry || entry.key !== key) return false;
+	const current = await readFile(filePath).catch(() => null);
+	if (!current || hash(current) !== entry.hash) return false;
+	cache.next[name] = entry;
+	return true;
+}
+
+/**
+ * Records the hash of a file written during the run
+ * @param ctx - Generation context
+ * @param filePath - Output file
+ * @param data - Contents written
+ */
+export function recordCacheEntry(
+	ctx: WriteContext,
+	filePath: string,
+	data: Buffer | string,
+) {
+	const key = ctx.cache?.pending.get(filePath);
+	if (!ctx.cache || !key) return;
+	ctx.cache.next[entryName(ctx, filePath)] = { key, hash: hash(data) };
+}
+
+/**
+ * Writes the cache file, keeping entries of files this run did not touch
+ * @param ctx - Generation context
+ */
+export async function saveBuildCache(ctx: WriteContext) {
+	if (!ctx.cache || ctx.options.dryRun) return;
+	await writeJson(
+		stageFile(ctx.transaction, path.join(ctx.options.output, CACHE_FILE_NAME)),
+		{ version, files: { ...ctx.cache.previous, ...ctx.cache.next } },
+		{ spaces: 2 },
+	);
+}
@@ -0,0 +1,421 @@
+import type { Plugin } from "esbuild";
+import path from "path";
+import { pathToFileURL } from "url";
+import { FavigenError } from "../errors";
+import type {
+	FavigenConfig,
+	FavigenJob,
+	ImageFormat,
+	ResizeKernel,
+} from "../types";
+import { pathExists, readJson } from "../utils";
+import { IMAGE_FORMATS } from "./png";
+import { RESIZE_KERNELS } from "./source";
+
+/** Config file names searched for, in order of precedence */
+export const CONFIG_FILE_NAMES = [
+	"favigen.config.ts",
+	"favigen.config.js",
+	"favigen.config.mjs",
+	"favigen.config.json",
+];
+
+/** Key holding favigen settings inside package.json */
+const PACKAGE_JSON_KEY = "favigen";
+
+/**
+ * A config loaded from disk
+ */
+export interface LoadedConfig {
+	/** Absolute path of the file the config came from */
+	path: string;
+	/** Validated config with paths resolved against the file's directory */
+	config: FavigenConfig;
+}
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (v) => typeof v === "string" && v.length > 0;
+const isBoolean: Check = (v) => typeof v === "boolean";
+const isSizes: Check = (v) =>
+	typeof v === "string" ||
+	(Array.isArray(v) && v.every((n) => Number.isInteger(n) && n > 0));
+const isQuality: Check = (v) =>
+	Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 100;
+const isPlainObject: Check = (v) =>
+	typeof v === "object" && v !== null && !Array.isArray(v);
+const isStringRecord: Check = (v) =>
+	typeof v === "object" &&
+	v !== null &&
+	!Array.isArray(v) &&
+	Object.values(v).every((x) => typeof x === "string");
+
+type Schema = Record<string, [Check, string]>;
+
+/** Validators for every supported config key, with the expected shape */
+const CONFIG_SCHEMA: Record<
+	Exclude<keyof FavigenConfig, "jobs">,
+	[Check, string]
+> = {
+	input: [isString, "a file path"],
+	inputSmall: [isString, "a file path"],
+	inputDark: [isString, "a file path"],
+	sourceMap: [
+		isStringRecord,
+		'an object mapping sizes to files, e.g. { "16": "icon16.png" }',
+	],
+	output: [isString, "a directory path"],
+	platforms: [
+		(v) =>
+			typeof v === "string" ||
+			(Array.isArray(v) && v.every((x) => typeof x === "string")),
+		'an array of platform names, e.g. ["web", "apple", "pwa"]',
+	],
+	sizes: [isSizes, "an array of positive integers or a comma-separated string"],
+	kernel: [
+		(v) => typeof v === "string" && RESIZE_KERNELS.includes(v as ResizeKernel),
+		`one of ${RESIZE_KERNELS.map((k) => `"${k}"`).join(", ")}`,
+	],
+	sharpen: [
+		(v) => typeof v === "boolean" || (Number.isInteger(v) && (v as number) > 0),
+		"a boolean or a maximum icon size in pixels",
+	],
+	yes: [isBoolean, "a boolean"],
+	dryRun: [isBoolean, "a boolean"],
+	force: [isBoolean, "a boolean"],
+	backup: [isBoolean, "a boolean"],
+	icoSizes: [
+		isSizes,
+		"an array of positive integers or a comma-separated string",
+	],
+	pngPalette: [isBoolean, "a boolean"],
+	pngColors: [
+		(v) => Number.isInteger(v) && (v as number) >= 2 && (v as number) <= 256,
+		"an integer between 2 and 256",
+	],
+	pngDither: [
+		(v) => typeof v === "number" && v >= 0 && v <= 1,
+		"a number between 0 and 1",
+	],
+	pngCompression: [
+		(v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 9,
+		"an integer between 0 and 9",
+	],
+	stripMetadata: [isBoolean, "a boolean"],
+	sizeBudget: [
+		(v) => (typeof v === "number" && v > 0) || isString(v),
+		'a number of bytes or a size such as "40KB"',
+	],
+	formats: [
+		(v) =>
+			typeof v === "string" ||
+			(Array.isArray(v) &&
+				v.every((x) => IMAGE_FORMATS.includes(x as ImageFormat))),
+		`an array of ${IMAGE_FORMATS.map((f) => `"${f}"`).join(", ")} or a comma-separated string`,
+	],
+	webpQuality: [isQuality, "an integer between 1 and 100"],
+	avifQuality: [isQuality, "an integer between 1 and 100"],
+	icoFormat: [
+		(v) => v === "png" || v === "bmp" || v === "hybrid",
+		'"png", "bmp" or "hybrid"',
+	],
+	cursor: [isBoolean, "a boolean"],
+	cursorHotspot: [
+		(v) =>
+			typeof v === "string" ||
+			(isPlainObject(v) &&
+				Number.isInteger((v as { x?: unknown }).x) &&
+				Number.isInteger((v as { y?: unknown }).y)),
+		'an object like { "x": 4, "y": 2 } or a string like "4,2"',
+	],
+	manifest: [isBoolean, "a boolean"],
+	manifestFileName: [isString, 'a file name such as "manifest.json"'],
+	manifestMerge: [isBoolean, "a boolean"],
+	manifestFields: [isPlainObject, "an object of web app manifest members"],
+	maskable: [isBoolean, "a boolean"],
+	maskableBackground: [isString, "a color string"],
+	maskablePadding: [
+		(v) => typeof v === "number" && v >= 0 && v < 0.5,
+		"a number between 0 and 0.5",
+	],
+	maskablePreview: [isBoolean, "a boolean"],
+	monochrome: [isBoolean, "a boolean"],
+	apple: [isBoolean, "a boolean"],
+	appleBackground: [isString, "a color string"],
+	applePadding: [
+		(v) => typeof v === "number" && v >= 0 && v < 0.5,
+		"a number between 0 and 0.5",
+	],
+	appleStartupImages: [isBoolean, "a boolean"],
+	browserconfig: [isBoolean, "a boolean"],
+	tilePadding: [
+		(v) => typeof v === "number" || isPlainObject(v),
+		"a number or an object keyed by tile name",
+	],
+	tileImage: [isBoolean, "a boolean"],
+	tileNotification: [
+		(v) =>
+			isPlainObject(v) &&
+			Array.isArray((v as { pollingUris?: unknown }).pollingUris),
+		"an object with a pollingUris array",
+	],
+	tileBadge: [
+		(v) =>
+			isPlainObject(v) &&
+			typeof (v as { pollingUri?: unknown }).pollingUri === "string",
+		"an object with a pollingUri string",
+	],
+	appName: [isString, "a non-empty string"],
+	themeColor: [isString, "a color string"],
+	backgroundColor: [isString, "a color string"],
+	svgDark: [isString, '"invert" or a color string'],
+	dark: [isString, '"invert" or a color string'],
+	themeColorDark: [isString, "a color string"],
+	preprocess: [
+		isPlainObject,
+		"an object with trim, padding, fit, background, radius, circle or platforms",
+	],
+	htmlFile: [isString, "a file path"],
+	inject: [isString, "a file path"],
+	publicPath: [(v) => typeof v === "string", "a string"],
+};
+
+/** Validators for the keys allowed at the top level of a config */
+const TOP_LEVEL_SCHEMA: Schema = {
+	...CONFIG_SCHEMA,
+	jobs: [Array.isArray, "an array of job objects"],
+};
+
+/** Validators for the keys of a batch job */
+const JOB_SCHEMA: Schema = {
+	...CONFIG_SCHEMA,
+	name: [isString, "a non-empty string"],
+};
+
+/** Config keys holding paths, resolved relative to the config file */
+const PATH_KEYS = [
+	"input",
+	"inputSmall",
+	"inputDark",
+	"output",
+	"htmlFile",
+	"inject",
+] as const;
+
+/**
+ * Validates a raw config object and each of its batch jobs
+ * @param raw - Parsed config value
+ * @param source - File the config came from, for error messages
+ * @returns The config, typed
+ * @throws FavigenError naming the offending key
+ */
+export function validateConfig(raw: unknown, source: string): FavigenConfig {
+	const config = checkKeys(raw, TOP_LEVEL_SCHEMA, source) as FavigenConfig;
+	config.jobs?.forEach((job, i) => {
+		checkKeys(job, JOB_SCHEMA, `${source} (jobs[${i}])`);
+	});
+	return config;
+}
+
+function checkKeys(
+	raw: unknown,
+	schema: Schema,
+	source: string,
+): Record<string, unknown> {
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+		throw new FavigenError(
+			"INVALID_CONFIG",
+			`Invalid config in ${source}: expected an object`,
+		);
+	}
+
+	for (const [key, value] of Object.entries(raw)) {
+		// Own keys only: inherited names such as "constructor" are not options
+		if (!Object.keys(schema).includes(key)) {
+			throw new FavigenError(
+				"INVALID_CONFIG",
+				`Invalid config in ${source}: unknown key "${key}"`,
+			);
+		}
+		const [check, expected] = schema[key];
+		if (value !== undefined && !check(value)) {
+			throw new FavigenError(
+				"INVALID_CONFIG",
+				`Invalid config in ${source}: "${key}" must be ${expected}`,
+			);
+		}
+	}
+	return raw as Record<string, unknown>;
+}
+
+function resolveConfigPaths<T extends FavigenJob>(config: T, dir: string): T {
+	const resolved: T = { ...config };
+	for (const key of PATH_KEYS) {
+		const value = resolved[key];
+		if (value) resolved[key] = path.resolve(dir, value);
+	}
+	if (resolved.sourceMap) {
+		resolved.sourceMap = Object.fromEntries(
+			Object.entries(resolved.sourceMap).map(([size, file]) => [
+				size,
+				path.resolve(dir, file),
+			]),
+		);
+	}
+	return resolved;
+}
+
+/** Marks the resolution requested by the plugin itself */
+const RESOLVING = Symbol("resolving");
+
+/**
+ * Points package imports at absolute file URLs, resolved from the config's
+ * directory, so the bundle can be imported from a data: URL
+ */
+const absolutePackages: Plugin = {
+	name: "absolute-packages",
+	setup(build) {
+		build.onResolve({ filter: /^[^./]/ }, async (args) => {
+			if (args.pluginData === RESOLVING) return undefined;
+			const result = await build.resolve(args.path, {
+				kind: args.kind,
+				resolveDir: args.resolveDir,
+				pluginData: RESOLVING,
+			});
+			// Built-in modules and unresolvable names are left to Node
+			if (result.errors.length > 0 || result.external) {
+				return { path: args.path, external: true };
+			}
+			return { path: pathToFileURL(result.path).href, external: true };
+		});
+	},
+};
+
+/**
+ * Imports a TypeScript config on any Node.js version: esbuild bundles it
+ * with its local imports and the result is imported from a data: URL, so
+ * nothing is written next to the config
+ * @param filePath - Absolute path of the config
+ * @returns Module namespace
+ */
+async function importTsConfig(
+	filePath: string,
+): Promise<Record<string, unknown>> {
+	const { build } = await import("esbuild");
+	const result = await build({
+		entryPoints: [filePath],
+		bundle: true,
+		platform: "node",
+		format: "esm",
+		plugins: [absolutePackages],
+		define: {
+			"import.meta.url": JSON.stringify(pathToFileURL(filePath).href),
+		},
+		write: false,
+		logLevel: "silent",
+	});
+	const code = Buffer.from(result.outputFiles[0].text).toString("base64");
+	return import(`data:text/javascript;base64,${code}`);
+}
+
+async function readConfigFile(filePath: string): Promise<unknown> {
+	if (filePath.endsWith(".json")) {
+		// readJson's message already names the file
+		return readJson(filePath).catch((error: Error) => {
+			throw new FavigenError("INVALID_CONFIG", error.message);
+		});
+	}
+	try {
+		const mod = filePath.endsWith(".ts")
+			? await importTsConfig(filePath)
+			: await import(pathToFileURL(filePath).href);
+		return mod.default ?? mod;
+	} catch (error) {
+		throw new FavigenError(
+			"INVALID_CONFIG",
+			`Failed to load ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Finds the config file for a project directory
+ * @param cwd - Directory to search
+ * @returns Path of the config file or package.json with a "favigen" key
+ */
+export async function findConfigFile(cwd: string): Promise<string | null> {
+	for (const name of CONFIG_FILE_NAMES) {
+		const candidate = path.join(cwd, name);
+		if (await pathExists(candidate)) return candidate;
+	}
+	const pkgPath = path.join(cwd, "package.json");
+	if (await pathExists(pkgPath)) {
+		const pkg = await readJson<Record<string, unknown>>(pkgPath).catch(
+			() => null,
+		);
+		if (pkg && PACKAGE_JSON_KEY in pkg) return pkgPath;
+	}
+	return null;
+}
+
+/**
+ * Loads and validates a favigen config
+ * @param options - Explicit config file, or the directory to search
+ * @returns The loaded config, or null when none was found
+ * @throws FavigenError if the config cannot be read or is invalid
+ */
+export async function loadConfig(
+	options: { configFile?: string; cwd?: string } = {},
+): Promise<LoadedConfig | null> {
+	const cwd = options.cwd ?? process.cwd();
+	let filePath: string | null;
+	if (options.configFile) {
+		filePath = path.resolve(cwd, options.configFile);
+		if (!(await pathExists(filePath))) {
+			throw new FavigenError(
+				"INVALID_CONFIG",
+				`Config file not found: ${options.configFile}`,
+			);
+		}
+	} else {
+		filePath = await findConfigFile(cwd);
+	}
+	if (!filePath) return null;
+
+	let raw = await readConfigFile(filePath);
+	if (path.basename(filePath) === "package.json") {
+		raw = (raw as Record<string, unknown>)[PACKAGE_JSON_KEY];
+	}
+	const source = path.relative(cwd, filePath) || filePath;
+	const dir = path.dirname(filePath);
+	const config = resolveConfigPaths(validateConfig(raw, source), dir);
+	if (config.jobs) {
+		config.jobs = config.jobs.map((job) => resolveConfigPaths(job, dir));
+	}
+	return { path: filePath, config };
+}
+
+/**
+ * Expands a config's batch jobs into complete settings, layering each job
+ * over the shared top-level values
+ * @param config - Config with a `jobs` list
+ * @returns One config per job, in order; empty when there are no jobs
+ */
+export function expandJobs(config: FavigenConfig): FavigenJob[] {
+	const { jobs = [], ...shared } = config;
+	return jobs.map((job) => ({
+		...shared,
+		...job,
+		manifestFields: { ...shared.manifestFields, ...job.manifestFields },
+		preprocess: { ...shared.preprocess, ...job.preprocess },
+	}));
+}
+
+/**
+ * Identity helper giving type checking and completion in JS/TS config files
+ * @param config - Favigen config
+ * @returns The same config
+ */
+export function defineConfig(config: FavigenConfig): FavigenConfig {
+	return config;
+}
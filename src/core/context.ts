@@ -0,0 +1,271 @@
+import path from "path";
+import type {
+	FavigenOptions,
+	GeneratedFile,
+	IcoFormat,
+	ImageFormat,
+	Logger,
+	ManifestFields,
+	PreprocessOptions,
+	PreprocessTarget,
+	PromptFn,
+	ResizeKernel,
+	TileBadge,
+	TileNotification,
+	TilePaddingKey,
+} from "../types";
+import { ensureDir, pathExists, writeFile, writeJson } from "../utils";
+import { type BuildCache, isUpToDate, recordCacheEntry } from "./cache";
+import type { SourceImage } from "./source";
+import { stageFile, type Transaction } from "./transaction";
+
+/**
+ * Preprocessing for one target after inheritance and defaults
+ */
+export interface ResolvedPreprocess {
+	trim: boolean;
+	/** Apple, maskable and Windows icons apply it through their own padding option */
+	padding?: number;
+	fit: NonNullable<PreprocessOptions["fit"]>;
+	background?: string;
+	radius: number;
+	circle: boolean;
+}
+
+/**
+ * Options after defaults have been applied and paths resolved
+ */
+export interface ResolvedOptions {
+	input: string;
+	source: SourceImage;
+	extraSources: SourceImage[];
+	sourceMap: Map<number, SourceImage>;
+	darkSource?: SourceImage;
+	output: string;
+	sizes: number[];
+	kernel: ResizeKernel;
+	/** Largest size that is sharpened, 0 when sharpening is off */
+	sharpen: number;
+	yes: boolean;
+	dryRun: boolean;
+	force: boolean;
+	backup: boolean;
+	ico: boolean;
+	icoSizes: number[];
+	icoFormat: IcoFormat;
+	png: {
+		palette: boolean;
+		colors: number;
+		dither: number;
+		compressionLevel: number;
+		stripMetadata: boolean;
+	};
+	sizeBudget?: number;
+	/** Formats written next to the PNG icons, most compact first */
+	formats: ImageFormat[];
+	quality: Record<ImageFormat, number>;
+	cursor: boolean;
+	cursorHotspot: { x: number; y: number };
+	manifest: boolean;
+	manifestFileName: string;
+	manifestMerge: boolean;
+	manifestFields: ManifestFields;
+	maskable: boolean;
+	maskableBackground?: string;
+	maskablePadding?: number;
+	maskablePreview: boolean;
+	monochrome: boolean;
+	apple: boolean;
+	appleBackground?: string;
+	applePadding: number;
+	appleStartupImages: boolean;
+	browserconfig: boolean;
+	tilePadding: Partial<Record<TilePaddingKey, number>>;
+	tileImage: boolean;
+	tileNotification?: TileNotification;
+	tileBadge?: TileBadge;
+	appName: string;
+	themeColor?: string;
+	backgroundColor?: string;
+	svgDark?: string;
+	dark?: string;
+	themeColorDark?: string;
+	preprocess: Record<PreprocessTarget, ResolvedPreprocess>;
+	htmlFile?: string;
+	inject?: string;
+	publicPath: string;
+}
+
+/**
+ * State needed to write files safely: output root, overwrite and dry-run
+ * settings, plus the records of what was written or skipped
+ */
+export interface WriteContext {
+	options: Pick<ResolvedOptions, "output" | "yes" | "dryRun">;
+	logger: Logger;
+	prompt?: PromptFn;
+	files: GeneratedFile[];
+	skipped: string[];
+	warnings: string[];
+	/** Incremental build state; every file is regenerated without it */
+	cache?: BuildCache;
+	/** Staging for the run's files; written in place without it */
+	transaction?: Transaction;
+	/** Existing files the user declined to overwrite in an earlier run */
+	declined?: ReadonlySet<string>;
+}
+
+/**
+ * State shared by every generation step of a single run
+ */
+export interface GenerationContext extends WriteContext {
+	options: ResolvedOptions;
+	/** Files left in place because their inputs did not change */
+	upToDate: string[];
+}
+
+/** Logger used when the caller does not supply one */
+export const silentLogger: Logger = {
+	info() {},
+	success() {},
+	warn() {},
+};
+
+/**
+ * Creates the context for a generation run
+ * @param options - Resolved options
+ * @param source - Original user options (for logger and prompt)
+ * @returns Fresh generation context
+ */
+export function createContext(
+	options: ResolvedOptions,
+	source: Pick<FavigenOptions, "logger" | "prompt">,
+): GenerationContext {
+	return {
+		options,
+		logger: source.logger ?? silentLogger,
+		prompt: source.prompt,
+		files: [],
+		skipped: [],
+		warnings: [],
+		upToDate: [],
+	};
+}
+
+/**
+ * Logs a warning and records it in the run result
+ */
+export function warn(ctx: WriteContext, message: string): void {
+	ctx.warnings.push(message);
+	ctx.logger.warn(`⚠ ${message}`);
+}
+
+function recordFile(ctx: WriteContext, filePath: string, bytes: number) {
+	ctx.files.push({
+		path: filePath,
+		name: path.relative(ctx.options.output, filePath),
+		bytes,
+	});
+}
+
+export async function ensureDirSafe(ctx: WriteContext, dir: string) {
+	if (ctx.options.dryRun) {
+		ctx.logger.warn(`[Dry Run] Would ensure directory ${dir}`);
+	} else {
+		await ensureDir(dir);
+	}
+}
+
+export async function writeFileSafe(
+	ctx: WriteContext,
+	filePath: string,
+	data: Buffer | string,
+) {
+	if (ctx.options.dryRun) {
+		ctx.logger.warn(`[Dry Run] Would write file ${filePath}`);
+	} else {
+		await writeFile(stageFile(ctx.transaction, filePath), data);
+	}
+	recordFile(ctx, filePath, Buffer.byteLength(data));
+	recordCacheEntry(ctx, filePath, data);
+}
+
+export async function writeJsonSafe(
+	ctx: WriteContext,
+	filePath: string,
+	obj: unknown,
+) {
+	if (ctx.options.dryRun) {
+		ctx.logger.warn(`[Dry Run] Would write JSON ${filePath}`);
+	} else {
+		await writeJson(stageFile(ctx.transaction, filePath), obj, { spaces: 2 });
+	}
+	const data = JSON.stringify(obj, null, 2);
+	recordFile(ctx, filePath, Buffer.byteLength(data));
+	recordCacheEntry(ctx, filePath, data);
+}
+
+/**
+ * Decides whether an existing file may be overwritten.
+ * Without a prompt, only `yes` allows overwriting.
+ */
+export async function confirmOverwrite(
+	ctx: WriteContext,
+	filePath: string,
+): Promise<boolean> {
+	if (ctx.declined?.has(filePath)) return false;
+	if (ctx.options.yes) return true;
+	if (!ctx.prompt) return false;
+	return ctx.prompt(`${filePath} exists. Overwrite?`);
+}
+
+/**
+ * Records a skipped file and logs it
+ */
+export function skipFile(ctx: WriteContext, filePath: string) {
+	ctx.skipped.push(filePath);
+	ctx.logger.warn(`⚠ Skipped ${path.basename(filePath)}`);
+}
+
+/**
+ * Keeps an output file when the build cache shows it is unchanged
+ * @param ctx - Generation context
+ * @param filePath - Output file
+ * @param inputs - File-specific inputs for the cache key
+ * @returns True if the file was kept and recorded as up to date
+ */
+export async function keepIfUpToDate(
+	ctx: GenerationContext,
+	filePath: string,
+	inputs?: unknown,
+): Promise<boolean> {
+	if (!(await isUpToDate(ctx, filePath, inputs))) return false;
+	ctx.upToDate.push(filePath);
+	ctx.logger.info(`✔ ${path.basename(filePath)} is up to date`);
+	return true;
+}
+
+/**
+ * Decides what to do with an output file before rendering it: keep it when
+ * the build cache shows it is unchanged, skip it when the user declines to
+ * overwrite it, or write it
+ * @param ctx - Generation context
+ * @param filePath - Output file
+ * @param inputs - File-specific inputs (size, padding, ...) for the cache key
+ * @returns "up-to-date", "skip" or "write"
+ */
+export async function prepareWrite(
+	ctx: GenerationContext,
+	filePath: string,
+	inputs?: unknown,
+): Promise<"up-to-date" | "skip" | "write"> {
+	if (await keepIfUpToDate(ctx, filePath, inputs)) return "up-to-date";
+	if (
+		(await pathExists(filePath)) &&
+		!(await confirmOverwrite(ctx, filePath))
+	) {
+		skipFile(ctx, filePath);
+		return "skip";
+	}
+	return "write";
+}
@@ -0,0 +1,139 @@
+import path from "path";
+import { encodeCur } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { publicHref } from "./html";
+import { icoEntryFormat } from "./ico";
+import { renderSource, type SourceImage, selectSource } from "./source";
+
+/** File name of the generated cursor */
+export const CURSOR_FILE_NAME = "cursor.cur";
+
+/** File name of the stylesheet declaring the cursor */
+export const CURSOR_CSS_NAME = "cursor.css";
+
+/** Cursor sizes used when none are given: standard, 150% and 200% scale */
+export const CURSOR_SIZES = [32, 48, 64];
+
+/**
+ * Maps a hotspot in source coordinates onto a square cursor image.
+ * The source is contained in the square, so non-square sources are
+ * centred and the hotspot shifts with them.
+ * @param source - Source image metadata
+ * @param hotspot - Hotspot in source pixels
+ * @param size - Cursor image size
+ * @returns Hotspot in cursor pixels, clamped to the image
+ */
+export function scaleHotspot(
+	source: SourceImage,
+	hotspot: { x: number; y: number },
+	size: number,
+): { x: number; y: number } {
+	const scale = size / Math.max(source.width, source.height, 1);
+	const left = (size - source.width * scale) / 2;
+	const top = (size - source.height * scale) / 2;
+	const clamp = (n: number) => Math.min(size - 1, Math.max(0, Math.round(n)));
+	return {
+		x: clamp(left + hotspot.x * scale),
+		y: clamp(top + hotspot.y * scale),
+	};
+}
+
+/**
+ * Places the configured hotspot on the cursor image of one size. The
+ * hotspot is given in pixels of the main source, so it is first mapped
+ * proportionally onto the source the size is actually rendered from.
+ * @param ctx - Generation context
+ * @param source - Source the size is rendered from
+ * @param size - Cursor image size
+ * @returns Hotspot in cursor pixels
+ */
+function cursorHotspot(
+	ctx: GenerationContext,
+	source: SourceImage,
+	size: number,
+): { x: number; y: number } {
+	const { source: main, cursorHotspot: hotspot } = ctx.options;
+	return scaleHotspot(
+		source,
+		{
+			x: (hotspot.x * source.width) / Math.max(main.width, 1),
+			y: (hotspot.y * source.height) / Math.max(main.height, 1),
+		},
+		size,
+	);
+}
+
+/**
+ * Builds the CSS `cursor` declaration for the generated cursor.
+ * The hotspot is given for the smallest image, which browsers use at 1x.
+ * @param ctx - Generation context
+ * @param source - Source the smallest image is rendered from
+ * @returns Declaration such as `cursor: url("/cursor.cur") 4 2, auto;`
+ */
+export function buildCursorCss(
+	ctx: GenerationContext,
+	source: SourceImage,
+): string {
+	const { options } = ctx;
+	const { x, y } = cursorHotspot(ctx, source, Math.min(...options.sizes));
+	const href = publicHref(options.publicPath, CURSOR_FILE_NAME);
+	return `cursor: url("${href}") ${x} ${y}, auto;`;
+}
+
+/**
+ * Writes cursor.cur with one image per size and cursor.css declaring it
+ * @param ctx - Generation context
+ * @returns The CSS cursor declaration
+ */
+export async function generateCursor(ctx: GenerationContext): Promise<string> {
+	const { options, logger } = ctx;
+	// Selected once per size, so an upscaling warning is not repeated
+	const sources = new Map(
+		options.sizes.map((size) => [size, selectSource(ctx, size)]),
+	);
+	const css = buildCursorCss(
+		ctx,
+		sources.get(Math.min(...options.sizes)) as SourceImage,
+	);
+
+	const curPath = path.join(options.output, CURSOR_FILE_NAME);
+	if ((await prepareWrite(ctx, curPath)) === "write") {
+		logger.info(`⏳ Generating ${CURSOR_FILE_NAME}...`);
+		const images = await Promise.all(
+			options.sizes.map(async (size) => ({
+				png: await optimizePng(
+					ctx,
+					await (
+						await renderSource(sources.get(size) as SourceImage, size, size, {
+							resize: {
+								fit: "contain",
+								background: { r: 0, g: 0, b: 0, alpha: 0 },
+							},
+							kernel: options.kernel,
+							sharpen: options.sharpen,
+						})
+					)
+						.png()
+						.toBuffer(),
+				),
+				hotspot: cursorHotspot(ctx, sources.get(size) as SourceImage, size),
+			})),
+		);
+		const curBuf = encodeCur(images, {
+			format: icoEntryFormat(options.icoFormat),
+		});
+		await writeFileSafe(ctx, curPath, curBuf);
+		logger.success(
+			`✔ Generated ${CURSOR_FILE_NAME} (${options.sizes.join(", ")}px)`,
+		);
+	}
+
+	const cssPath = path.join(options.output, CURSOR_CSS_NAME);
+	if ((await prepareWrite(ctx, cssPath)) === "write") {
+		await writeFileSafe(ctx, cssPath, `.cursor {\n\t${css}\n}\n`);
+		logger.success(`✔ Generated ${CURSOR_CSS_NAME}`);
+	}
+
+	return css;
+}
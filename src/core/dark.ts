@@ -0,0 +1,130 @@
+import path from "path";
+import sharp from "sharp";
+import { APPLE_TOUCH_ICON_SIZE } from "./apple";
+import {
+	type GenerationContext,
+	prepareWrite,
+	type ResolvedOptions,
+	writeFileSafe,
+} from "./context";
+import { optimizePng } from "./optimize";
+import { renderIcon } from "./preprocess";
+import { sampleSource } from "./source";
+import { detectColors } from "./themeColor";
+
+/** Media query selecting dark-mode variants */
+export const DARK_MEDIA = "(prefers-color-scheme: dark)";
+
+/** Media query selecting the default (light) variants once dark ones exist */
+export const LIGHT_MEDIA = "(prefers-color-scheme: light)";
+
+/** Size the derived dark icon is rendered at to detect its theme color */
+const COLOR_SAMPLE_SIZE = 64;
+
+/**
+ * File name of the dark-mode PNG icon for a size
+ * @param size - Icon size
+ * @returns e.g. "icon-dark-32x32.png"
+ */
+export function darkIconName(size: number): string {
+	return `icon-dark-${size}x${size}.png`;
+}
+
+/**
+ * Whether the run produces dark-mode variants
+ * @param options - Resolved options
+ */
+export function hasDarkVariants(options: ResolvedOptions): boolean {
+	return Boolean(options.darkSource || options.dark);
+}
+
+/**
+ * Sizes that get a dark variant: every PNG linked as a browser icon.
+ * The 180px PNG that doubles as the Apple touch icon sits on the home
+ * screen, not in the tab bar, so it keeps a single version.
+ * @param options - Resolved options
+ * @returns Icon sizes
+ */
+export function darkIconSizes(options: ResolvedOptions): number[] {
+	return options.sizes.filter(
+		(size) => options.apple || size !== APPLE_TOUCH_ICON_SIZE,
+	);
+}
+
+/**
+ * Renders the dark-mode icon: the dark source when one is given, otherwise
+ * the light icon inverted (keeping hues) or recoloured with a solid colour
+ * @param ctx - Generation context
+ * @param size - Icon size
+ * @returns PNG buffer
+ */
+export async function renderDarkIcon(
+	ctx: GenerationContext,
+	size: number,
+): Promise<Buffer> {
+	const { darkSource, dark = "invert", preprocess } = ctx.options;
+	if (darkSource) {
+		return renderIcon(ctx, size, preprocess.favicon, darkSource);
+	}
+
+	// A recoloured logo keeps only its shape, so it is drawn without the fill
+	const settings =
+		dark === "invert"
+			? preprocess.favicon
+			: { ...preprocess.favicon, background: undefined };
+	const light = await sharp(await renderIcon(ctx, size, settings))
+		.ensureAlpha()
+		.png()
+		.toBuffer();
+	if (dark === "invert") {
+		// Matches the SVG treatment: invert(1) hue-rotate(180deg)
+		return sharp(light)
+			.negate({ alpha: false })
+			.modulate({ hue: 180 })
+			.png()
+			.toBuffer();
+	}
+	const alpha = await sharp(light).extractChannel(3).raw().toBuffer();
+	return sharp({
+		create: { width: size, height: size, channels: 3, background: dark },
+	})
+		.joinChannel(alpha, { raw: { width: size, height: size, channels: 1 } })
+		.png()
+		.toBuffer();
+}
+
+/**
+ * Writes the dark-mode PNG icons paired with the light ones
+ * @param ctx - Generation context
+ */
+export async function generateDarkIcons(ctx: GenerationContext) {
+	const { options, logger } = ctx;
+	const sizes = darkIconSizes(options);
+	logger.info(`⏳ Generating ${sizes.length} dark mode icons...`);
+	for (const size of sizes) {
+		const fileName = darkIconName(size);
+		const outPath = path.join(options.output, fileName);
+		if ((await prepareWrite(ctx, outPath, { size })) !== "write") continue;
+		await writeFileSafe(
+			ctx,
+			outPath,
+			await optimizePng(ctx, await renderDarkIcon(ctx, size)),
+		);
+		logger.success(`✔ Generated ${fileName}`);
+	}
+}
+
+/**
+ * Detects the dark-mode theme color: the dominant color of the dark icon
+ * @param ctx - Generation context
+ * @returns Hex color string
+ */
+export async function detectDarkThemeColor(
+	ctx: GenerationContext,
+): Promise<string> {
+	const { darkSource } = ctx.options;
+	const input = darkSource
+		? await sampleSource(darkSource, COLOR_SAMPLE_SIZE)
+		: await renderDarkIcon(ctx, COLOR_SAMPLE_SIZE);
+	return (await detectColors(input)).themeColor;
+}
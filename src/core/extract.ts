@@ -0,0 +1,125 @@
+import path from "path";
+import { FavigenError, isFavigenError } from "../errors";
+import type { ExtractedImage, ExtractOptions, ExtractResult } from "../types";
+import { decodeIco, type DecodedIco, pathExists, readFile } from "../utils";
+import {
+	confirmOverwrite,
+	ensureDirSafe,
+	silentLogger,
+	skipFile,
+	type WriteContext,
+	writeFileSafe,
+} from "./context";
+
+/**
+ * Reads and decodes an ICO or CUR file
+ * @param inputPath - Absolute path of the file
+ * @returns Decoded images
+ * @throws FavigenError if the file is missing or not a valid ICO/CUR
+ */
+export async function readIcoFile(inputPath: string): Promise<DecodedIco> {
+	const data = await readFile(inputPath).catch(() => null);
+	if (!data) {
+		throw new FavigenError(
+			"INPUT_NOT_FOUND",
+			`Input file not found or not a file: ${inputPath}`,
+		);
+	}
+	try {
+		return decodeIco(data);
+	} catch (err) {
+		throw new FavigenError(
+			"UNSUPPORTED_FORMAT",
+			`Cannot decode ${path.basename(inputPath)}: ${err instanceof Error ? err.message : String(err)}`,
+		);
+	}
+}
+
+/**
+ * Extracts every image of an ICO or CUR file as PNG
+ * (e.g. favicon.ico → favicon-16x16.png, favicon-32x32.png, ...)
+ * @param options - Extraction options
+ * @returns Description of the recovered images and written files
+ * @throws FavigenError if the input cannot be read or decoded
+ */
+export async function extractIcons(
+	options: ExtractOptions,
+): Promise<ExtractResult> {
+	const input = path.resolve(options.input);
+	const baseName = path.basename(input, path.extname(input));
+	const output = path.resolve(
+		options.output ?? path.join(path.dirname(input), baseName),
+	);
+	const ctx: WriteContext = {
+		options: {
+			output,
+			yes: options.yes ?? false,
+			dryRun: options.dryRun ?? false,
+		},
+		logger: options.logger ?? silentLogger,
+		prompt: options.prompt,
+		files: [],
+		skipped: [],
+		warnings: [],
+	};
+
+	const decoded = await readIcoFile(input);
+	ctx.logger.info(
+		`📁 ${path.basename(input)}: ${decoded.type} with ${decoded.images.length} image(s)`,
+	);
+
+	try {
+		await ensureDirSafe(ctx, output);
+
+		const images: ExtractedImage[] = [];
+		const used = new Set<string>();
+		for (const [i, image] of decoded.images.entries()) {
+			// Files may hold the same size at several bit depths
+			let name = `${baseName}-${image.width}x${image.height}.png`;
+			if (used.has(name)) {
+				name = `${baseName}-${image.width}x${image.height}-${image.bitDepth}bit.png`;
+			}
+			if (used.has(name)) {
+				name = `${baseName}-${image.width}x${image.height}-${i + 1}.png`;
+			}
+			used.add(name);
+
+			const filePath = path.join(output, name);
+			if (
+				(await pathExists(filePath)) &&
+				!(await confirmOverwrite(ctx, filePath))
+			) {
+				skipFile(ctx, filePath);
+			} else {
+				await writeFileSafe(ctx, filePath, image.png);
+				ctx.logger.success(
+					`✔ Extracted ${name} (${image.format.toUpperCase()}, ${image.bitDepth}-bit)`,
+				);
+			}
+			images.push({
+				name,
+				width: image.width,
+				height: image.height,
+				bitDepth: image.bitDepth,
+				format: image.format,
+				hotspot: image.hotspot,
+			});
+		}
+
+		return {
+			input,
+			output,
+			type: decoded.type,
+			images,
+			dryRun: ctx.options.dryRun,
+			files: ctx.files,
+			skipped: ctx.skipped,
+		};
+	} catch (err) {
+		if (isFavigenError(err)) throw err;
+		throw new FavigenError(
+			"GENERATION_FAILED",
+			err instanceof Error ? err.message : String(err),
+		);
+	}
+}
@@ -0,0 +1,246 @@
+import { FavigenError, isFavigenError } from "../errors";
+import type { FavigenOptions, GenerateResult } from "../types";
+import { generateAppleIcons } from "./apple";
+import { generateBrowserConfig } from "./browserconfig";
+import { loadBuildCache, saveBuildCache } from "./cache";
+import { createContext, ensureDirSafe, silentLogger, warn } from "./context";
+import { generateCursor } from "./cursor";
+import {
+	detectDarkThemeColor,
+	generateDarkIcons,
+	hasDarkVariants,
+} from "./dark";
+import { buildHtmlTags, buildPictureHtml, writeHtml } from "./html";
+import { generateIco } from "./ico";
+import { generateManifest } from "./manifest";
+import { generateMaskableIcons, generateMonochromeIcons } from "./maskable";
+import { resolveOptions } from "./options";
+import { PALETTE_SAMPLE_SIZE } from "./palette";
+import { generatePngIcons } from "./png";
+import { reportSizes } from "./report";
+import { type SourceCache, sampleSource } from "./source";
+import { generateSvgIcon } from "./svg";
+import { checkBackgroundContrast, detectColors } from "./themeColor";
+import {
+	abortTransaction,
+	beginTransaction,
+	commitTransaction,
+} from "./transaction";
+
+/**
+ * A generation step that can be re-run on its own
+ */
+export type GenerationStep =
+	| "svg"
+	| "png"
+	| "ico"
+	| "apple"
+	| "maskable"
+	| "monochrome"
+	| "manifest"
+	| "browserconfig"
+	| "html"
+	| "cursor"
+	| "dark";
+
+/**
+ * State a caller carries across several runs
+ */
+export interface GenerationRun {
+	/** Steps to run; every enabled step runs when omitted */
+	steps?: ReadonlySet<GenerationStep>;
+	/** Existing files to leave alone, even with `yes` */
+	declined?: ReadonlySet<string>;
+	/** Sources shared with other runs, decoded only once */
+	sources?: SourceCache;
+}
+
+/**
+ * Generates favicon.ico, PNG icons and optional manifest/browserconfig files
+ * @param options - Generation options
+ * @returns Structured description of what was produced
+ * @throws FavigenError if validation or generation fails
+ */
+export async function generateFavicons(
+	options: FavigenOptions,
+): Promise<GenerateResult> {
+	return runGeneration(options);
+}
+
+/**
+ * Runs the generation steps, optionally limited to a subset
+ * @param options - Generation options
+ * @param run - Steps, declined files and sources carried over from other runs
+ * @returns Structured description of what was produced
+ * @throws FavigenError if validation or generation fails
+ */
+export async function runGeneration(
+	options: FavigenOptions,
+	run: GenerationRun = {},
+): Promise<GenerateResult> {
+	const { steps, declined } = run;
+	const shouldRun = (step: GenerationStep) => !steps || steps.has(step);
+	const logger = options.logger ?? silentLogger;
+	const { resolved, outsideCwd } = await resolveOptions(
+		options,
+		logger,
+		run.sources,
+	);
+	logger.info(`📁 Input:  ${resolved.input}`);
+	logger.info(`📁 Output: ${resolved.output}`);
+
+	if (outsideCwd && !resolved.yes && options.prompt) {
+		const confirmed = await options.prompt(
+			`Continue with output path outside current directory? (${resolved.output})`,
+		);
+		if (!confirmed) {
+			throw new FavigenError("CANCELLED", "Operation cancelled.");
+		}
+	}
+
+	const ctx = createContext(resolved, { ...options, logger });
+	ctx.declined = declined;
+
+	try {
+		// Sampled through the shared pipeline, so the source is decoded only once
+		const detected = await detectColors(
+			await sampleSource(resolved.source, PALETTE_SAMPLE_SIZE),
+		);
+		const themeColor = resolved.themeColor ?? detected.themeColor;
+		if (!resolved.themeColor) {
+			logger.info(`🎨 Detected theme color: ${themeColor}`);
+		}
+		const backgroundColor =
+			resolved.backgroundColor ?? detected.backgroundColor;
+
+		await ensureDirSafe(ctx, resolved.output);
+		// Nothing reaches the output until every step has succeeded
+		if (!resolved.dryRun) {
+			ctx.transaction = await beginTransaction(
+				resolved.output,
+				resolved.backup,
+			);
+		}
+		ctx.cache = await loadBuildCache(resolved, themeColor, backgroundColor);
+
+		// Cursor mode produces only the cursor and its stylesheet
+		if (resolved.cursor) {
+			const css = shouldRun("cursor") ? await generateCursor(ctx) : undefined;
+			await saveBuildCache(ctx);
+			const sizeReport = await reportSizes(ctx, Boolean(steps));
+			if (ctx.transaction) await commitTransaction(ctx.transaction, logger);
+			return {
+				input: resolved.input,
+				output: resolved.output,
+				sizes: resolved.sizes,
+				themeColor,
+				backgroundColor,
+				html: "",
+				css,
+				dryRun: resolved.dryRun,
+				files: ctx.files,
+				skipped: ctx.skipped,
+				upToDate: ctx.upToDate,
+				warnings: ctx.warnings,
+				sizeReport,
+			};
+		}
+
+		if (resolved.source.isSvg) {
+			if (shouldRun("svg")) await generateSvgIcon(ctx);
+		} else if (resolved.svgDark) {
+			warn(ctx, "svgDark is ignored because the input is not an SVG");
+		}
+
+		if (!resolved.backgroundColor) {
+			logger.info(
+				`🎨 Chose background color: ${backgroundColor} (contrast ${detected.contrast.toFixed(1)}:1 against the logo)`,
+			);
+		}
+		checkBackgroundContrast(ctx, detected, [
+			[
+				"backgroundColor",
+				(resolved.manifest || resolved.apple || resolved.maskable) &&
+					resolved.backgroundColor,
+			],
+			["appleBackground", resolved.apple && resolved.appleBackground],
+			["maskableBackground", resolved.maskable && resolved.maskableBackground],
+		]);
+
+		// The ICO reuses the PNG renders of sizes both lists share
+		const icons = shouldRun("png") ? await generatePngIcons(ctx) : [];
+		if (resolved.ico && shouldRun("ico")) {
+			await generateIco(ctx, icons);
+		}
+
+		let themeColorDark = resolved.themeColorDark;
+		if (hasDarkVariants(resolved)) {
+			if (shouldRun("dark")) await generateDarkIcons(ctx);
+			if (!themeColorDark) {
+				themeColorDark = await detectDarkThemeColor(ctx);
+				logger.info(`🎨 Detected dark theme color: ${themeColorDark}`);
+			}
+		}
+
+		if (resolved.apple && shouldRun("apple")) {
+			await generateAppleIcons(
+				ctx,
+				resolved.appleBackground ?? backgroundColor,
+			);
+		}
+		if (resolved.maskable && shouldRun("maskable")) {
+			await generateMaskableIcons(
+				ctx,
+				resolved.maskableBackground ?? backgroundColor,
+			);
+		}
+		if (resolved.monochrome && shouldRun("monochrome")) {
+			await generateMonochromeIcons(ctx);
+		}
+
+		if (resolved.manifest && shouldRun("manifest")) {
+			await generateManifest(ctx, themeColor, backgroundColor);
+		}
+		if (resolved.browserconfig && shouldRun("browserconfig")) {
+			await generateBrowserConfig(
+				ctx,
+				resolved.preprocess.windows.background ?? themeColor,
+			);
+		}
+
+		const htmlTags = buildHtmlTags(
+			ctx,
+			themeColor,
+			themeColorDark,
+			Boolean(steps),
+		);
+		if (shouldRun("html")) await writeHtml(ctx, htmlTags);
+		await saveBuildCache(ctx);
+		const sizeReport = await reportSizes(ctx, Boolean(steps));
+		if (ctx.transaction) await commitTransaction(ctx.transaction, logger);
+
+		return {
+			input: resolved.input,
+			output: resolved.output,
+			sizes: resolved.sizes,
+			themeColor,
+			backgroundColor,
+			themeColorDark,
+			html: htmlTags.join("\n"),
+			picture: buildPictureHtml(ctx),
+			dryRun: resolved.dryRun,
+			files: ctx.files,
+			skipped: ctx.skipped,
+			upToDate: ctx.upToDate,
+			warnings: ctx.warnings,
+			sizeReport,
+		};
+	} catch (err) {
+		if (ctx.transaction) await abortTransaction(ctx.transaction);
+		if (isFavigenError(err)) throw err;
+		throw new FavigenError(
+			"GENERATION_FAILED",
+			err instanceof Error ? err.message : String(err),
+		);
+	}
+}
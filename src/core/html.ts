@@ -0,0 +1,235 @@
+import path from "path";
+import { htmlTag, injectHeadTags, readFile } from "../utils";
+import { APPLE_TOUCH_ICON_SIZE, buildAppleTags } from "./apple";
+import { tileFileName } from "./browserconfig";
+import {
+	DARK_MEDIA,
+	darkIconName,
+	darkIconSizes,
+	hasDarkVariants,
+	LIGHT_MEDIA,
+} from "./dark";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { IMAGE_MIME_TYPES, iconFileName } from "./png";
+import { SVG_ICON_NAME } from "./svg";
+
+/**
+ * Joins the public path prefix and a generated file name
+ * @param publicPath - Prefix such as "/" or "/static/icons/"
+ * @param fileName - Generated file name
+ * @returns URL used in href attributes
+ */
+export function publicHref(publicPath: string, fileName: string): string {
+	if (!publicPath) return fileName;
+	return publicPath.endsWith("/")
+		? `${publicPath}${fileName}`
+		: `${publicPath}/${fileName}`;
+}
+
+/**
+ * Tells which output files the tags may link to: those written or kept up
+ * to date by this run. In a partial run, files of the steps that did not run
+ * are assumed to be left from an earlier one unless the user declined them.
+ * @param ctx - Generation context
+ * @param partial - Only some steps ran
+ * @returns Predicate taking a file name relative to the output directory
+ */
+function linkableFiles(
+	ctx: GenerationContext,
+	partial: boolean,
+): (fileName: string) => boolean {
+	const kept = new Set([
+		...ctx.files.map((file) => file.path),
+		...ctx.upToDate,
+	]);
+	const skipped = new Set(ctx.skipped);
+	return (fileName) => {
+		const filePath = path.join(ctx.options.output, fileName);
+		if (kept.has(filePath)) return true;
+		return partial && !skipped.has(filePath) && !ctx.declined?.has(filePath);
+	};
+}
+
+/**
+ * Builds the <head> tags matching the files produced by this run
+ * @param ctx - Generation context
+ * @param themeColor - Theme color used for the run
+ * @param themeColorDark - Dark-mode theme color, paired with the light one
+ * @param partial - Only some steps ran; files of the others are still linked
+ * @returns One tag per line
+ */
+export function buildHtmlTags(
+	ctx: GenerationContext,
+	themeColor: string,
+	themeColorDark?: string,
+	partial = false,
+): string[] {
+	const { options } = ctx;
+	const href = (name: string) => publicHref(options.publicPath, name);
+	const linked = linkableFiles(ctx, partial);
+	const dark = hasDarkVariants(options);
+	const darkSizes = new Set(dark ? darkIconSizes(options) : []);
+	const tags: string[] = [];
+	if (options.ico && linked("favicon.ico")) {
+		// "any" is left to the SVG: Chromium prefers an ICO that also claims it
+		const icoSize = Math.max(...options.icoSizes);
+		tags.push(
+			htmlTag("link", {
+				rel: "icon",
+				href: href("favicon.ico"),
+				sizes: `${icoSize}x${icoSize}`,
+			}),
+		);
+	}
+
+	if (options.source.isSvg && linked(SVG_ICON_NAME)) {
+		tags.push(
+			htmlTag("link", {
+				rel: "icon",
+				href: href(SVG_ICON_NAME),
+				type: "image/svg+xml",
+				sizes: "any",
+			}),
+		);
+	}
+
+	for (const size of options.sizes) {
+		// Without the Apple target, a 180px PNG doubles as the touch icon
+		const touchIcon = !options.apple && size === APPLE_TOUCH_ICON_SIZE;
+		const paired = darkSizes.has(size) && linked(darkIconName(size));
+		if (linked(iconFileName(size))) {
+			tags.push(
+				htmlTag("link", {
+					rel: touchIcon ? "apple-touch-icon" : "icon",
+					type: touchIcon ? undefined : "image/png",
+					sizes: `${size}x${size}`,
+					href: href(iconFileName(size)),
+					media: paired ? LIGHT_MEDIA : undefined,
+				}),
+			);
+		}
+		if (paired) {
+			tags.push(
+				htmlTag("link", {
+					rel: "icon",
+					type: "image/png",
+					sizes: `${size}x${size}`,
+					href: href(darkIconName(size)),
+					media: DARK_MEDIA,
+				}),
+			);
+		}
+	}
+	if (options.apple) {
+		tags.push(...buildAppleTags(ctx, href, linked));
+	}
+
+	if (options.manifest && linked(options.manifestFileName)) {
+		tags.push(
+			htmlTag("link", {
+				rel: "manifest",
+				href: href(options.manifestFileName),
+			}),
+		);
+	}
+	if (themeColorDark) {
+		tags.push(
+			htmlTag("meta", {
+				name: "theme-color",
+				media: LIGHT_MEDIA,
+				content: themeColor,
+			}),
+			htmlTag("meta", {
+				name: "theme-color",
+				media: DARK_MEDIA,
+				content: themeColorDark,
+			}),
+		);
+	} else {
+		tags.push(htmlTag("meta", { name: "theme-color", content: themeColor }));
+	}
+	if (options.browserconfig) {
+		if (linked("browserconfig.xml")) {
+			tags.push(
+				htmlTag("meta", {
+					name: "msapplication-config",
+					content: href("browserconfig.xml"),
+				}),
+			);
+		}
+		tags.push(
+			htmlTag("meta", {
+				name: "msapplication-TileColor",
+				content: options.preprocess.windows.background ?? themeColor,
+			}),
+		);
+		if (options.tileImage && linked(tileFileName(144, 144))) {
+			tags.push(
+				htmlTag("meta", {
+					name: "msapplication-TileImage",
+					content: href(tileFileName(144, 144)),
+				}),
+			);
+		}
+	}
+	return tags;
+}
+
+/**
+ * Builds a <picture> element for the largest icon, offering its extra
+ * formats with the PNG as the fallback <img>
+ * @param ctx - Generation context
+ * @returns Markup, or undefined when no extra formats or PNG icons are written
+ */
+export function buildPictureHtml(ctx: GenerationContext): string | undefined {
+	const { options } = ctx;
+	if (options.formats.length === 0 || options.sizes.length === 0) {
+		return undefined;
+	}
+	const href = (name: string) => publicHref(options.publicPath, name);
+	const size = Math.max(...options.sizes);
+	const sources = options.formats.map((format) =>
+		htmlTag("source", {
+			type: IMAGE_MIME_TYPES[format],
+			srcset: href(iconFileName(size, format)),
+		}),
+	);
+	const img = htmlTag("img", {
+		src: href(iconFileName(size)),
+		width: String(size),
+		height: String(size),
+		alt: options.appName,
+	});
+	return [
+		"<picture>",
+		...[...sources, img].map((tag) => `\t${tag}`),
+		"</picture>",
+	].join("\n");
+}
+
+/**
+ * Writes the HTML snippet and/or injects it into an existing document
+ * @param ctx - Generation context
+ * @param tags - Tags built by `buildHtmlTags`
+ */
+export async function writeHtml(ctx: GenerationContext, tags: string[]) {
+	const { options, logger } = ctx;
+
+	if (
+		options.htmlFile &&
+		(await prepareWrite(ctx, options.htmlFile, tags)) === "write"
+	) {
+		await writeFileSafe(ctx, options.htmlFile, `${tags.join("\n")}\n`);
+		logger.success(`✔ Generated ${path.basename(options.htmlFile)}`);
+	}
+
+	if (
+		options.inject &&
+		(await prepareWrite(ctx, options.inject, tags)) === "write"
+	) {
+		logger.info(`⏳ Injecting tags into ${path.basename(options.inject)}...`);
+		const html = await readFile(options.inject, "utf8");
+		await writeFileSafe(ctx, options.inject, injectHeadTags(html, tags));
+		logger.success(`✔ Updated ${path.basename(options.inject)}`);
+	}
+}
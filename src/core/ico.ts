@@ -0,0 +1,50 @@
+import path from "path";
+import type { IcoFormat } from "../types";
+import { encodeIco, hybridIcoFormat, type IcoEncodeOptions } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { renderIcon } from "./preprocess";
+
+/**
+ * Maps the icoFormat option onto the encoder's per-entry format choice
+ * @param icoFormat - Resolved icoFormat option
+ * @returns Format option for `encodeIco`/`encodeCur`
+ */
+export function icoEntryFormat(
+	icoFormat: IcoFormat,
+): IcoEncodeOptions["format"] {
+	return icoFormat === "hybrid" ? hybridIcoFormat : icoFormat;
+}
+
+/**
+ * Writes favicon.ico with the `icoSizes` entries. Sizes that were also
+ * rendered as PNG icons reuse those images; the rest are rendered here.
+ * @param ctx - Generation context
+ * @param rendered - PNG icons already rendered in this run
+ */
+export async function generateIco(
+	ctx: GenerationContext,
+	rendered: Array<{ size: number; buffer: Buffer }>,
+) {
+	const { options } = ctx;
+	const icoPath = path.join(options.output, "favicon.ico");
+	if ((await prepareWrite(ctx, icoPath)) !== "write") return;
+	ctx.logger.info(
+		`⏳ Generating favicon.ico (${options.icoSizes.join(", ")}px)...`,
+	);
+	const buffers = await Promise.all(
+		options.icoSizes.map(
+			async (size) =>
+				rendered.find((icon) => icon.size === size)?.buffer ??
+				optimizePng(
+					ctx,
+					await renderIcon(ctx, size, options.preprocess.favicon),
+				),
+		),
+	);
+	const icoBuf = encodeIco(buffers, {
+		format: icoEntryFormat(ctx.options.icoFormat),
+	});
+	await writeFileSafe(ctx, icoPath, icoBuf);
+	ctx.logger.success("✔ Generated favicon.ico");
+}
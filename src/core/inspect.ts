@@ -0,0 +1,595 @@
+import path from "path";
+import sharp from "sharp";
+import { FavigenError } from "../errors";
+import type {
+	InspectFinding,
+	InspectLevel,
+	InspectOptions,
+	InspectReport,
+	ManifestImage,
+} from "../types";
+import {
+	decodeIco,
+	findTags,
+	isValidIco,
+	pathExists,
+	readdir,
+	readFile,
+	stat,
+} from "../utils";
+import { APPLE_TOUCH_ICON_NAMES, APPLE_TOUCH_ICON_SIZE } from "./apple";
+import { TILE_IMAGE_SIZE, TILES } from "./browserconfig";
+import { isCssColor } from "./palette";
+
+/** Manifest file names looked for when auditing a directory */
+const MANIFEST_NAMES = [
+	"site.webmanifest",
+	"manifest.webmanifest",
+	"manifest.json",
+];
+
+/** ICO sizes browsers pick for tabs and bookmarks */
+const ICO_EXPECTED_SIZES = [16, 32];
+
+/** Manifest icon sizes browsers require before offering to install */
+const MANIFEST_REQUIRED_SIZES = [192, 512];
+
+/** MIME type expected for each icon file extension */
+const EXTENSION_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".svg": "image/svg+xml",
+	".ico": "image/x-icon",
+	".webp": "image/webp",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+};
+
+/**
+ * State of a single inspection run
+ */
+interface InspectContext {
+	root: string;
+	findings: InspectFinding[];
+	/** Files already inspected, so shared references are reported once */
+	checked: Set<string>;
+}
+
+function report(
+	ctx: InspectContext,
+	level: InspectLevel,
+	file: string | undefined,
+	message: string,
+) {
+	ctx.findings.push({
+		level,
+		file: file && (path.relative(ctx.root, file) || path.basename(file)),
+		message,
+	});
+}
+
+/**
+ * Resolves an href or manifest src to a local file
+ * @param ctx - Inspection context
+ * @param url - URL as written in the document
+ * @param baseDir - Directory relative URLs resolve against
+ * @param referrer - File containing the URL, for the error report
+ * @returns Absolute path, null for remote and data URLs, or undefined for a
+ * malformed URL (reported as an error)
+ */
+function resolveUrl(
+	ctx: InspectContext,
+	url: string,
+	baseDir: string,
+	referrer: string,
+): string | null | undefined {
+	if (/^(?:[a-z][a-z\d+.-]*:|\/\/)/i.test(url)) return null;
+	let clean: string;
+	try {
+		clean = decodeURIComponent(url.replace(/[?#].*$/, ""));
+	} catch {
+		report(
+			ctx,
+			"error",
+			referrer,
+			`References ${url}, which is not a valid URL`,
+		);
+		return undefined;
+	}
+	return clean.startsWith("/")
+		? path.join(ctx.root, clean)
+		: path.resolve(baseDir, clean);
+}
+
+/**
+ * Checks that a referenced file exists, reporting it as an error otherwise
+ * @returns The absolute path when the file exists and was not yet inspected
+ */
+async function referencedFile(
+	ctx: InspectContext,
+	url: string,
+	baseDir: string,
+	referrer: string,
+): Promise<string | null> {
+	const file = resolveUrl(ctx, url, baseDir, referrer);
+	if (file === undefined) return null;
+	if (!file) {
+		report(ctx, "ok", referrer, `References remote ${url} (not checked)`);
+		return null;
+	}
+	if (!(await pathExists(file))) {
+		report(ctx, "error", referrer, `References ${url}, which does not exist`);
+		return null;
+	}
+	if (ctx.checked.has(file)) return null;
+	ctx.checked.add(file);
+	return file;
+}
+
+function checkColor(
+	ctx: InspectContext,
+	file: string,
+	name: string,
+	value: unknown,
+) {
+	if (value === undefined) return;
+	if (typeof value !== "string" || !isCssColor(value)) {
+		report(
+			ctx,
+			"error",
+			file,
+			`${name} "${String(value)}" is not a valid CSS color`,
+		);
+	}
+}
+
+async function readImageMeta(file: string) {
+	return sharp(file)
+		.metadata()
+		.catch(() => null);
+}
+
+/**
+ * Checks favicon.ico: decodable entries, duplicate and missing sizes
+ */
+async function inspectIco(ctx: InspectContext, file: string) {
+	const data = await readFile(file);
+	if (!isValidIco(data)) {
+		report(ctx, "error", file, "Not a valid ICO file");
+		return;
+	}
+	let images: ReturnType<typeof decodeIco>["images"];
+	try {
+		images = decodeIco(data).images;
+	} catch (err) {
+		report(
+			ctx,
+			"error",
+			file,
+			`Cannot decode: ${err instanceof Error ? err.message : String(err)}`,
+		);
+		return;
+	}
+
+	const sizes = images.map((image) => `${image.width}x${image.height}`);
+	report(
+		ctx,
+		"ok",
+		file,
+		`ICO with ${images.length} image(s): ${images
+			.map((image, i) => `${sizes[i]} ${image.format.toUpperCase()}`)
+			.join(", ")}`,
+	);
+
+	const duplicates = sizes.filter((size, i) => sizes.indexOf(size) !== i);
+	for (const size of new Set(duplicates)) {
+		report(ctx, "warning", file, `Duplicate ${size} entries`);
+	}
+	for (const size of ICO_EXPECTED_SIZES) {
+		if (!sizes.includes(`${size}x${size}`)) {
+			report(ctx, "warning", file, `No ${size}x${size} entry`);
+		}
+	}
+	for (const image of images) {
+		if (image.width !== image.height) {
+			report(
+				ctx,
+				"warning",
+				file,
+				`Non-square ${image.width}x${image.height} entry`,
+			);
+		}
+	}
+}
+
+/**
+ * Checks a raster icon's dimensions against its declared sizes and its
+ * file name (e.g. icon-32x32.png)
+ */
+async function inspectImage(
+	ctx: InspectContext,
+	file: string,
+	declared?: string,
+	reportOk = true,
+) {
+	const meta = await readImageMeta(file);
+	if (!meta?.width || !meta.height) {
+		report(ctx, "error", file, "Not a readable image");
+		return;
+	}
+	const actual = `${meta.width}x${meta.height}`;
+	let valid = true;
+
+	const named = /(\d+)x(\d+)\.\w+$/.exec(path.basename(file));
+	if (named && `${named[1]}x${named[2]}` !== actual) {
+		report(
+			ctx,
+			"error",
+			file,
+			`Named ${named[1]}x${named[2]} but is ${actual}`,
+		);
+		valid = false;
+	}
+
+	const tokens = (declared ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+	if (tokens.includes("any")) {
+		if (meta.format !== "svg") {
+			report(
+				ctx,
+				"warning",
+				file,
+				`sizes "any" is meant for SVG, but the image is ${actual}`,
+			);
+		}
+	} else if (tokens.length > 0 && !tokens.includes(actual)) {
+		report(ctx, "error", file, `Declared sizes "${declared}" but is ${actual}`);
+		valid = false;
+	}
+
+	if (valid && reportOk) {
+		report(
+			ctx,
+			"ok",
+			file,
+			`${(meta.format ?? "image").toUpperCase()} ${actual}`,
+		);
+	}
+}
+
+/**
+ * Checks an Apple touch icon: iOS fills transparent pixels with black
+ */
+async function inspectAppleIcon(ctx: InspectContext, file: string) {
+	const meta = await readImageMeta(file);
+	if (!meta?.width || !meta.height) {
+		report(ctx, "error", file, "Not a readable image");
+		return;
+	}
+	const size = APPLE_TOUCH_ICON_SIZE;
+	if (meta.width !== size || meta.height !== size) {
+		report(
+			ctx,
+			"warning",
+			file,
+			`Apple touch icon is ${meta.width}x${meta.height}, expected ${size}x${size}`,
+		);
+	}
+	const { isOpaque } = await sharp(file).stats();
+	if (!isOpaque) {
+		report(
+			ctx,
+			"error",
+			file,
+			"Apple touch icon has transparent pixels; iOS renders them black",
+		);
+	} else {
+		report(
+			ctx,
+			"ok",
+			file,
+			`Opaque ${meta.width}x${meta.height} Apple touch icon`,
+		);
+	}
+}
+
+async function inspectSvg(ctx: InspectContext, file: string) {
+	const svg = await readFile(file, "utf8");
+	if (!/<svg\b/i.test(svg)) {
+		report(ctx, "error", file, "Not an SVG document");
+	} else {
+		report(ctx, "ok", file, "SVG icon");
+	}
+}
+
+/**
+ * Inspects an icon by file type
+ * @param declared - Sizes declared by the referencing link
+ * @param apple - The icon is used as an Apple touch icon
+ */
+async function inspectIcon(
+	ctx: InspectContext,
+	file: string,
+	declared?: string,
+	apple = false,
+) {
+	const ext = path.extname(file).toLowerCase();
+	if (ext === ".ico") return inspectIco(ctx, file);
+	if (ext === ".svg") return inspectSvg(ctx, file);
+	if (apple) {
+		return inspectAppleIcon(ctx, file);
+	}
+	return inspectImage(ctx, file, declared);
+}
+
+/**
+ * Checks the manifest: JSON syntax, icon references, declared sizes,
+ * colors and installability sizes
+ */
+async function inspectManifest(ctx: InspectContext, file: string) {
+	let manifest: Record<string, unknown>;
+	try {
+		manifest = JSON.parse(await readFile(file, "utf8"));
+	} catch (err) {
+		report(
+			ctx,
+			"error",
+			file,
+			`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+		);
+		return;
+	}
+
+	if (!manifest.name && !manifest.short_name) {
+		report(ctx, "warning", file, "Neither name nor short_name is set");
+	}
+	checkColor(ctx, file, "theme_color", manifest.theme_color);
+	checkColor(ctx, file, "background_color", manifest.background_color);
+
+	const icons = Array.isArray(manifest.icons)
+		? (manifest.icons as ManifestImage[])
+		: [];
+	if (icons.length === 0) {
+		report(ctx, "error", file, "No icons listed");
+		return;
+	}
+	report(ctx, "ok", file, `Manifest with ${icons.length} icon(s)`);
+
+	const baseDir = path.dirname(file);
+	const anySizes = new Set<string>();
+	for (const icon of icons) {
+		if (typeof icon?.src !== "string") {
+			report(ctx, "error", file, "Icon entry without a src");
+			continue;
+		}
+		const purposes = (icon.purpose ?? "any").split(/\s+/);
+		if (purposes.includes("any")) {
+			for (const size of (icon.sizes ?? "").split(/\s+/)) anySizes.add(size);
+		}
+		const expectedType =
+			EXTENSION_TYPES[
+				path.extname(icon.src.replace(/[?#].*$/, "")).toLowerCase()
+			];
+		if (icon.type && expectedType && icon.type !== expectedType) {
+			report(
+				ctx,
+				"warning",
+				file,
+				`${icon.src} declares type ${icon.type}, expected ${expectedType}`,
+			);
+		}
+		const iconFile = resolveUrl(ctx, icon.src, baseDir, file);
+		if (!iconFile) continue;
+		if (!(await pathExists(iconFile))) {
+			report(ctx, "error", file, `Icon ${icon.src} does not exist`);
+			continue;
+		}
+		if (path.extname(iconFile).toLowerCase() === ".svg") continue;
+		// Declared sizes are checked per entry, even for files seen before
+		await inspectImage(ctx, iconFile, icon.sizes, !ctx.checked.has(iconFile));
+		ctx.checked.add(iconFile);
+	}
+
+	for (const size of MANIFEST_REQUIRED_SIZES) {
+		if (!anySizes.has(`${size}x${size}`)) {
+			report(
+				ctx,
+				"warning",
+				file,
+				`No ${size}x${size} icon with purpose "any"; browsers may not offer to install the app`,
+			);
+		}
+	}
+}
+
+/**
+ * Checks browserconfig.xml: tile references, tile dimensions and TileColor
+ */
+async function inspectBrowserConfig(ctx: InspectContext, file: string) {
+	const xml = await readFile(file, "utf8");
+	if (!/<browserconfig\b/i.test(xml)) {
+		report(ctx, "error", file, "Missing <browserconfig> root element");
+		return;
+	}
+
+	const expected: Record<string, string> = {
+		TileImage: `${TILE_IMAGE_SIZE}x${TILE_IMAGE_SIZE}`,
+	};
+	for (const tile of TILES) {
+		expected[`${tile.name}logo`] = `${tile.width}x${tile.height}`;
+	}
+
+	let count = 0;
+	for (const [element, size] of Object.entries(expected)) {
+		for (const attrs of findTags(xml, element)) {
+			if (!attrs.src) continue;
+			count++;
+			const tileFile = await referencedFile(
+				ctx,
+				attrs.src,
+				path.dirname(file),
+				file,
+			);
+			if (tileFile) await inspectImage(ctx, tileFile, size);
+		}
+	}
+	const tileColor = /<TileColor>([^<]*)<\/TileColor>/i.exec(xml)?.[1];
+	checkColor(ctx, file, "TileColor", tileColor);
+	report(ctx, "ok", file, `browserconfig with ${count} tile image(s)`);
+}
+
+/**
+ * Audits the favicon tags of an HTML document and the files they reference
+ */
+async function inspectHtml(ctx: InspectContext, file: string) {
+	const html = await readFile(file, "utf8");
+	const baseDir = path.dirname(file);
+	const links = findTags(html, "link");
+	const metas = findTags(html, "meta");
+
+	const iconRels = [
+		"icon",
+		"shortcut icon",
+		"apple-touch-icon",
+		"apple-touch-icon-precomposed",
+	];
+	const iconLinks = links.filter((attrs) =>
+		iconRels.includes((attrs.rel ?? "").toLowerCase()),
+	);
+	if (
+		!iconLinks.some((attrs) =>
+			["icon", "shortcut icon"].includes(attrs.rel.toLowerCase()),
+		)
+	) {
+		report(
+			ctx,
+			"warning",
+			file,
+			'No <link rel="icon">; browsers fall back to /favicon.ico',
+		);
+	}
+	for (const attrs of iconLinks) {
+		if (!attrs.href) {
+			report(ctx, "error", file, `<link rel="${attrs.rel}"> without href`);
+			continue;
+		}
+		const iconFile = await referencedFile(ctx, attrs.href, baseDir, file);
+		if (iconFile) {
+			// The rel, not the file name, makes iOS use the icon
+			const apple = attrs.rel.toLowerCase().startsWith("apple-touch-icon");
+			await inspectIcon(ctx, iconFile, attrs.sizes, apple);
+		}
+	}
+
+	for (const attrs of links.filter(
+		(a) => a.rel?.toLowerCase() === "manifest",
+	)) {
+		const manifestFile =
+			attrs.href && (await referencedFile(ctx, attrs.href, baseDir, file));
+		if (manifestFile) await inspectManifest(ctx, manifestFile);
+	}
+
+	for (const attrs of metas) {
+		const name = attrs.name?.toLowerCase();
+		if (name === "theme-color") {
+			checkColor(ctx, file, "theme-color", attrs.content);
+		} else if (
+			name === "msapplication-config" &&
+			attrs.content &&
+			attrs.content !== "none"
+		) {
+			const configFile = await referencedFile(
+				ctx,
+				attrs.content,
+				baseDir,
+				file,
+			);
+			if (configFile) await inspectBrowserConfig(ctx, configFile);
+		} else if (name === "msapplication-tilecolor") {
+			checkColor(ctx, file, "msapplication-TileColor", attrs.content);
+		}
+	}
+}
+
+/**
+ * Audits the favicon files found in an output directory
+ */
+async function inspectDirectory(ctx: InspectContext, dir: string) {
+	const names = (await readdir(dir)).sort();
+	const has = (name: string) => names.includes(name);
+	const visit = async (
+		name: string,
+		check: (ctx: InspectContext, file: string) => Promise<void>,
+	) => {
+		const file = path.join(dir, name);
+		if (ctx.checked.has(file)) return;
+		ctx.checked.add(file);
+		await check(ctx, file);
+	};
+
+	if (has("favicon.ico")) {
+		await visit("favicon.ico", inspectIco);
+	} else {
+		report(ctx, "warning", undefined, "No favicon.ico");
+	}
+
+	const manifests = names.filter(
+		(name) => MANIFEST_NAMES.includes(name) || name.endsWith(".webmanifest"),
+	);
+	for (const name of manifests) await visit(name, inspectManifest);
+
+	if (has("browserconfig.xml"))
+		await visit("browserconfig.xml", inspectBrowserConfig);
+
+	for (const name of names) {
+		if (/\.(png|svg|ico)$/i.test(name))
+			await visit(name, (c, f) =>
+				inspectIcon(c, f, undefined, APPLE_TOUCH_ICON_NAMES.includes(name)),
+			);
+	}
+}
+
+/**
+ * Audits an existing favicon setup: an output directory, or an HTML file
+ * and everything its <head> references
+ * @param options - Target to inspect
+ * @returns Findings with error and warning counts
+ * @throws FavigenError if the target does not exist or is not supported
+ */
+export async function inspectFavicons(
+	options: InspectOptions,
+): Promise<InspectReport> {
+	const target = path.resolve(options.target);
+	const targetStat = await stat(target).catch(() => null);
+	if (!targetStat) {
+		throw new FavigenError("INPUT_NOT_FOUND", `Not found: ${options.target}`);
+	}
+	const isHtml = targetStat.isFile() && /\.html?$/i.test(target);
+	if (!targetStat.isDirectory() && !isHtml) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Expected a directory or an HTML file: ${options.target}`,
+		);
+	}
+
+	const ctx: InspectContext = {
+		root: path.resolve(
+			options.root ?? (isHtml ? path.dirname(target) : target),
+		),
+		findings: [],
+		checked: new Set(),
+	};
+	if (isHtml) {
+		await inspectHtml(ctx, target);
+	} else {
+		await inspectDirectory(ctx, target);
+	}
+
+	const count = (level: InspectLevel) =>
+		ctx.findings.filter((finding) => finding.level === level).length;
+	return {
+		target,
+		root: ctx.root,
+		findings: ctx.findings,
+		errors: count("error"),
+		warnings: count("warning"),
+	};
+}
@@ -0,0 +1,114 @@
+import path from "path";
+import type { ManifestImage } from "../types";
+import { pathExists, readJson } from "../utils";
+import {
+	confirmOverwrite,
+	type GenerationContext,
+	keepIfUpToDate,
+	skipFile,
+	warn,
+	writeJsonSafe,
+} from "./context";
+import { MASKABLE_SIZES, purposeIconName } from "./maskable";
+import { IMAGE_MIME_TYPES, iconFileName } from "./png";
+import { SVG_ICON_NAME } from "./svg";
+
+/**
+ * Builds the manifest `icons` array for the generated files. Extra formats
+ * come before the PNG of the same size, so browsers that support them pick
+ * them and the rest fall back to the PNG.
+ * @param ctx - Generation context
+ * @returns Icon entries
+ */
+export function buildManifestIcons(ctx: GenerationContext): ManifestImage[] {
+	const { options } = ctx;
+	const icons: ManifestImage[] = options.sizes.flatMap((sz) =>
+		[...options.formats, "png" as const].map((format) => ({
+			src: iconFileName(sz, format),
+			sizes: `${sz}x${sz}`,
+			type: IMAGE_MIME_TYPES[format],
+		})),
+	);
+	if (options.source.isSvg) {
+		icons.push({ src: SVG_ICON_NAME, sizes: "any", type: "image/svg+xml" });
+	}
+	for (const purpose of ["maskable", "monochrome"] as const) {
+		if (!options[purpose]) continue;
+		for (const sz of MASKABLE_SIZES) {
+			icons.push({
+				src: purposeIconName(purpose, sz),
+				sizes: `${sz}x${sz}`,
+				type: "image/png",
+				purpose,
+			});
+		}
+	}
+	return icons;
+}
+
+async function readExistingManifest(
+	ctx: GenerationContext,
+	manifestPath: string,
+): Promise<Record<string, unknown> | null> {
+	try {
+		const existing = await readJson<unknown>(manifestPath);
+		if (typeof existing === "object" && existing && !Array.isArray(existing)) {
+			return existing as Record<string, unknown>;
+		}
+		warn(ctx, `${path.basename(manifestPath)} is not a JSON object`);
+	} catch (error) {
+		warn(ctx, error instanceof Error ? error.message : String(error));
+	}
+	return null;
+}
+
+/**
+ * Writes the web app manifest referencing the generated icons.
+ * In merge mode an existing manifest keeps its other members and only
+ * has icons, colours and explicitly configured fields replaced.
+ * @param ctx - Generation context
+ * @param themeColor - Theme color for the manifest
+ * @param backgroundColor - Background color for the manifest
+ */
+export async function generateManifest(
+	ctx: GenerationContext,
+	themeColor: string,
+	backgroundColor: string,
+) {
+	const { options, logger } = ctx;
+	const fileName = options.manifestFileName;
+	const manifestPath = path.join(options.output, fileName);
+	const generated = {
+		...options.manifestFields,
+		icons: buildManifestIcons(ctx),
+		theme_color: themeColor,
+		background_color: backgroundColor,
+	};
+	if (await keepIfUpToDate(ctx, manifestPath, generated)) return;
+	const exists = await pathExists(manifestPath);
+
+	if (exists && options.manifestMerge) {
+		const existing = await readExistingManifest(ctx, manifestPath);
+		if (existing) {
+			logger.info(`⏳ Merging icons into ${fileName}...`);
+			await writeJsonSafe(ctx, manifestPath, { ...existing, ...generated });
+			logger.success(`✔ Updated ${fileName}`);
+			return;
+		}
+		warn(ctx, `Could not merge into ${fileName}, asking to overwrite instead`);
+	}
+
+	if (exists && !(await confirmOverwrite(ctx, manifestPath))) {
+		skipFile(ctx, manifestPath);
+		return;
+	}
+	logger.info(`⏳ Writing ${fileName}...`);
+	const manifest = {
+		name: options.appName,
+		short_name: options.appName,
+		display: "standalone",
+		...generated,
+	};
+	await writeJsonSafe(ctx, manifestPath, manifest);
+	logger.success(`✔ Generated ${fileName}`);
+}
@@ -0,0 +1,240 @@
+import path from "path";
+import sharp from "sharp";
+import { readFile } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { renderIcon, renderOnCanvas } from "./preprocess";
+
+/** Sizes Android and Chrome look for in maskable/monochrome icons */
+export const MASKABLE_SIZES = [192, 512];
+
+/** Diameter of the maskable safe zone as a fraction of the icon size */
+const SAFE_ZONE = 0.8;
+
+/** File name of the mask preview sheet */
+export const MASKABLE_PREVIEW_NAME = "maskable-preview.png";
+
+/**
+ * File name for a purpose-specific icon
+ * @param purpose - Manifest icon purpose
+ * @param size - Icon size
+ */
+export function purposeIconName(
+	purpose: "maskable" | "monochrome",
+	size: number,
+): string {
+	return `icon-${purpose}-${size}x${size}.png`;
+}
+
+/**
+ * Computes the box the logo is fitted into on a maskable canvas.
+ * With explicit padding the box is a square inset on every side;
+ * otherwise the logo's bounding box is fitted into the safe-zone circle.
+ * @param ctx - Generation context
+ * @param size - Canvas size
+ * @returns Logo box width and height
+ */
+function maskableLogoBox(
+	ctx: GenerationContext,
+	size: number,
+): { width: number; height: number } {
+	const { maskablePadding } = ctx.options;
+	if (maskablePadding !== undefined) {
+		const inner = Math.max(1, Math.round(size * (1 - 2 * maskablePadding)));
+		return { width: inner, height: inner };
+	}
+	const { source, preprocess } = ctx.options;
+	const { width, height } = preprocess.maskable.trim
+		? (source.trimBox ?? source)
+		: source;
+	const diagonal = Math.hypot(width || 1, height || 1);
+	const scale = (size * SAFE_ZONE) / diagonal;
+	return {
+		width: Math.max(1, Math.floor((width || 1) * scale)),
+		height: Math.max(1, Math.floor((height || 1) * scale)),
+	};
+}
+
+/**
+ * Renders a maskable icon: the logo centred inside the safe zone on a
+ * solid background
+ * @param ctx - Generation context
+ * @param size - Icon size
+ * @param background - Canvas color
+ * @returns PNG buffer
+ */
+export async function renderMaskableIcon(
+	ctx: GenerationContext,
+	size: number,
+	background: string,
+): Promise<Buffer> {
+	return renderOnCanvas(
+		ctx,
+		{ width: size, height: size, background },
+		maskableLogoBox(ctx, size),
+		ctx.options.preprocess.maskable,
+	);
+}
+
+/**
+ * Renders a monochrome icon from the source's alpha channel.
+ * Browsers ignore the colour data and tint the shape themselves.
+ * @param ctx - Generation context
+ * @param size - Icon size
+ * @returns PNG buffer
+ */
+export async function renderMonochromeIcon(
+	ctx: GenerationContext,
+	size: number,
+): Promise<Buffer> {
+	const icon = await renderIcon(ctx, size, ctx.options.preprocess.monochrome);
+	const alpha = await sharp(icon)
+		.ensureAlpha()
+		.extractChannel(3)
+		.raw()
+		.toBuffer();
+	return sharp({
+		create: { width: size, height: size, channels: 3, background: "#000000" },
+	})
+		.joinChannel(alpha, { raw: { width: size, height: size, channels: 1 } })
+		.png()
+		.toBuffer();
+}
+
+async function writePurposeIcon(
+	ctx: GenerationContext,
+	fileName: string,
+	render: () => Promise<Buffer>,
+): Promise<Buffer | null> {
+	const outPath = path.join(ctx.options.output, fileName);
+	const state = await prepareWrite(ctx, outPath);
+	if (state === "skip") return null;
+	if (state === "up-to-date") return readFile(outPath);
+	const buf = await optimizePng(ctx, await render());
+	await writeFileSafe(ctx, outPath, buf);
+	ctx.logger.success(`✔ Generated ${fileName}`);
+	return buf;
+}
+
+/**
+ * Writes maskable icons (and the optional mask preview)
+ * @param ctx - Generation context
+ * @param background - Canvas color behind the logo
+ */
+export async function generateMaskableIcons(
+	ctx: GenerationContext,
+	background: string,
+) {
+	ctx.logger.info("⏳ Generating maskable icons...");
+	let largest: Buffer | null = null;
+	for (const size of MASKABLE_SIZES) {
+		const buf = await writePurposeIcon(
+			ctx,
+			purposeIconName("maskable", size),
+			() => renderMaskableIcon(ctx, size, background),
+		);
+		if (buf) largest = buf;
+	}
+
+	if (ctx.options.maskablePreview) {
+		await writePurposeIcon(ctx, MASKABLE_PREVIEW_NAME, async () =>
+			renderMaskPreview(
+				largest ??
+					(await renderMaskableIcon(
+						ctx,
+						MASKABLE_SIZES[MASKABLE_SIZES.length - 1],
+						background,
+					)),
+			),
+		);
+	}
+}
+
+/**
+ * Writes monochrome icons built from the source's alpha channel
+ * @param ctx - Generation context
+ */
+export async function generateMonochromeIcons(ctx: GenerationContext) {
+	ctx.logger.info("⏳ Generating monochrome icons...");
+	for (const size of MASKABLE_SIZES) {
+		await writePurposeIcon(ctx, purposeIconName("monochrome", size), () =>
+			renderMonochromeIcon(ctx, size),
+		);
+	}
+}
+
+/**
+ * Builds an SVG path approximating a squircle (superellipse, n = 4)
+ * @param size - Bounding box size
+ * @returns SVG path data
+ */
+function squirclePath(size: number): string {
+	const r = size / 2;
+	const points: string[] = [];
+	for (let i = 0; i < 64; i++) {
+		const t = (i / 64) * Math.PI * 2;
+		const cos = Math.cos(t);
+		const sin = Math.sin(t);
+		const x = r + r * Math.sign(cos) * Math.abs(cos) ** 0.5;
+		const y = r + r * Math.sign(sin) * Math.abs(sin) ** 0.5;
+		points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+	}
+	return `M${points.join("L")}Z`;
+}
+
+/**
+ * Renders a preview sheet showing the maskable icon unmasked, under a
+ * circle mask and under a squircle mask, with the safe zone outlined
+ * @param icon - Maskable icon PNG
+ * @returns PNG buffer
+ */
+export async function renderMaskPreview(icon: Buffer): Promise<Buffer> {
+	const meta = await sharp(icon).metadata();
+	const size = meta.width ?? MASKABLE_SIZES[MASKABLE_SIZES.length - 1];
+	const gap = Math.round(size / 8);
+	const r = size / 2;
+	const safeZone = Buffer.from(
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><circle cx="${r}" cy="${r}" r="${(r * SAFE_ZONE).toFixed(2)}" fill="none" stroke="#ff0066" stroke-width="${Math.max(1, size / 128)}" stroke-dasharray="${size / 32}"/></svg>`,
+	);
+	const masks = [
+		`<circle cx="${r}" cy="${r}" r="${r}"/>`,
+		`<path d="${squirclePath(size)}"/>`,
+	];
+
+	const tiles = [
+		await sharp(icon)
+			.composite([{ input: safeZone }])
+			.png()
+			.toBuffer(),
+	];
+	for (const shape of masks) {
+		const mask = Buffer.from(
+			`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${shape}</svg>`,
+		);
+		tiles.push(
+			await sharp(icon)
+				.ensureAlpha()
+				.composite([{ input: mask, blend: "dest-in" }])
+				.png()
+				.toBuffer(),
+		);
+	}
+
+	return sharp({
+		create: {
+			width: tiles.length * size + (tiles.length + 1) * gap,
+			height: size + 2 * gap,
+			channels: 4,
+			background: "#e5e7eb",
+		},
+	})
+		.composite(
+			tiles.map((input, i) => ({
+				input,
+				left: gap + i * (size + gap),
+				top: gap,
+			})),
+		)
+		.png()
+		.toBuffer();
+}
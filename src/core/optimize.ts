@@ -0,0 +1,28 @@
+import sharp from "sharp";
+import { stripPngMetadata } from "../utils/png";
+import type { GenerationContext } from "./context";
+
+/**
+ * Re-encodes a rendered icon with the configured PNG settings: optional
+ * palette quantization with dithering, the compression level and
+ * metadata stripping
+ * @param ctx - Generation context
+ * @param png - Rendered PNG
+ * @returns Encoded PNG
+ */
+export async function optimizePng(
+	ctx: GenerationContext,
+	png: Buffer,
+): Promise<Buffer> {
+	const { palette, colors, dither, compressionLevel, stripMetadata } =
+		ctx.options.png;
+	const image = sharp(png);
+	if (!stripMetadata) image.keepMetadata();
+	const encoded = await image
+		.png({
+			compressionLevel,
+			...(palette ? { palette, colors, dither } : {}),
+		})
+		.toBuffer();
+	return stripMetadata ? stripPngMetadata(encoded) : encoded;
+}
@@ -0,0 +1,822 @@
+import path from "path";
+import { FavigenError } from "../errors";
+import type {
+	FavigenOptions,
+	IcoFormat,
+	ImageFormat,
+	Logger,
+	ManifestFields,
+	PreprocessOptions,
+	PreprocessTarget,
+	TilePaddingKey,
+} from "../types";
+import { stat as fsStat } from "../utils";
+import { POLLING_FREQUENCIES, TILE_IMAGE, TILES } from "./browserconfig";
+import {
+	combinePlatforms,
+	type PlatformCompanion,
+	parsePlatformList,
+} from "./platforms";
+import type { ResolvedOptions, ResolvedPreprocess } from "./context";
+import { CURSOR_SIZES } from "./cursor";
+import { isCssColor } from "./palette";
+import { IMAGE_FORMATS } from "./png";
+import {
+	measureTrimBox,
+	RESIZE_KERNELS,
+	readSourceImage,
+	type SourceCache,
+	type SourceImage,
+} from "./source";
+
+/** Default PNG sizes, matching the historic CLI default */
+export const DEFAULT_SIZES = [16, 32, 48, 64, 128, 256, 180, 150, 70];
+
+/** Output directory used when a run does not name one */
+export const DEFAULT_OUTPUT = "icons";
+
+/** Default favicon.ico entries: the sizes browsers and Windows pick from */
+export const DEFAULT_ICO_SIZES = [16, 32, 48];
+
+/** Icons up to this size are sharpened when `sharpen` is true */
+const DEFAULT_SHARPEN_SIZE = 32;
+
+/** Largest image an ICO directory entry can describe */
+const MAX_ICO_SIZE = 256;
+
+/** Encoder quality used when `webpQuality`/`avifQuality` are not set */
+const DEFAULT_QUALITY: Record<ImageFormat, number> = { avif: 50, webp: 80 };
+
+/**
+ * Parses a comma-separated size list into positive integers
+ * @param list - Size list such as "16,32,48"
+ * @returns Valid sizes, in the order given
+ */
+export function parseSizeList(list: string): number[] {
+	return list
+		.split(",")
+		.map((n) => parseInt(n.trim(), 10))
+		.filter((n) => Number.isFinite(n) && n > 0);
+}
+
+/** Multipliers for the units accepted in byte sizes */
+const BYTE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2 };
+
+/**
+ * Parses a byte size such as "40KB", "1.5 MB" or "2048"
+ * @param value - Size in bytes, or with a B/KB/MB unit (1 KB = 1024 bytes)
+ * @returns Size in bytes, NaN when malformed
+ */
+export function parseByteSize(value: number | string): number {
+	if (typeof value === "number") return value;
+	const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb)?\s*$/i.exec(value);
+	if (!match) return Number.NaN;
+	return Math.round(
+		Number(match[1]) * BYTE_UNITS[(match[2] ?? "b").toLowerCase()],
+	);
+}
+
+/**
+ * Parses a ratio given as a fraction or a percentage
+ * @param value - Ratio such as "0.1" or "10%"
+ * @returns The fraction, NaN when malformed
+ */
+export function parseRatio(value: string): number {
+	const trimmed = value.trim();
+	return trimmed.endsWith("%")
+		? Number(trimmed.slice(0, -1)) / 100
+		: Number(trimmed);
+}
+
+function resolveSizes(
+	sizes: FavigenOptions["sizes"],
+	platformSizes: number[] | undefined,
+): number[] {
+	if (sizes === undefined) return platformSizes ?? [...DEFAULT_SIZES];
+	const parsed =
+		typeof sizes === "string"
+			? parseSizeList(sizes)
+			: sizes.filter((n) => Number.isInteger(n) && n > 0);
+	if (parsed.length === 0) {
+		throw new FavigenError("INVALID_OPTION", "No valid sizes provided.");
+	}
+	return parsed;
+}
+
+/**
+ * Parses and checks the favicon.ico sizes up front, so a bad entry fails
+ * the run before any file is written
+ * @param icoSizes - Sizes as numbers or a comma-separated list
+ * @returns Distinct sizes, smallest first
+ * @throws FavigenError if the list is empty or a size is not 1-256
+ */
+function resolveIcoSizes(icoSizes: FavigenOptions["icoSizes"]): number[] {
+	if (icoSizes === undefined) return [...DEFAULT_ICO_SIZES];
+	const entries =
+		typeof icoSizes === "string"
+			? icoSizes
+					.split(",")
+					.map((n) => n.trim())
+					.filter(Boolean)
+			: icoSizes;
+	if (entries.length === 0) {
+		throw new FavigenError("INVALID_OPTION", "No ICO sizes provided.");
+	}
+	const invalid = entries.filter((entry) => {
+		const n = Number(entry);
+		return !(Number.isInteger(n) && n > 0 && n <= MAX_ICO_SIZE);
+	});
+	if (invalid.length > 0) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid ICO size(s) ${invalid.join(", ")}: entries must be whole numbers from 1 to ${MAX_ICO_SIZE}`,
+		);
+	}
+	return [...new Set(entries.map(Number))].sort((a, b) => a - b);
+}
+
+/**
+ * Parses and checks the extra icon formats
+ * @param formats - Formats as a list or a comma-separated string
+ * @returns Distinct formats in `IMAGE_FORMATS` order
+ * @throws FavigenError if a format is not supported
+ */
+function resolveFormats(formats: FavigenOptions["formats"]): ImageFormat[] {
+	const entries =
+		typeof formats === "string"
+			? formats
+					.split(",")
+					.map((f) => f.trim().toLowerCase())
+					.filter(Boolean)
+			: (formats ?? []);
+	const invalid = entries.filter(
+		(entry) => !IMAGE_FORMATS.includes(entry as ImageFormat),
+	);
+	if (invalid.length > 0) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Unsupported format(s) ${invalid.join(", ")}, expected: ${IMAGE_FORMATS.join(", ")} (PNG is always written)`,
+		);
+	}
+	return IMAGE_FORMATS.filter((format) => entries.includes(format));
+}
+
+/**
+ * Parses and checks the cursor hotspot against the source dimensions
+ * @param hotspot - Hotspot as `{ x, y }` or "x,y"
+ * @param source - Source image the hotspot refers to
+ * @returns Hotspot in source pixels
+ * @throws FavigenError if the hotspot is malformed or outside the source
+ */
+function resolveHotspot(
+	hotspot: FavigenOptions["cursorHotspot"],
+	source: SourceImage,
+): { x: number; y: number } {
+	if (hotspot === undefined) return { x: 0, y: 0 };
+	const [x, y] =
+		typeof hotspot === "string"
+			? hotspot.split(",").map((n) => Number(n.trim()))
+			: [hotspot.x, hotspot.y];
+	if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid cursor hotspot "${typeof hotspot === "string" ? hotspot : `${hotspot.x},${hotspot.y}`}", expected x,y in pixels`,
+		);
+	}
+	if (x >= source.width || y >= source.height) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Cursor hotspot ${x},${y} lies outside the ${source.width}x${source.height} source image`,
+		);
+	}
+	return { x, y };
+}
+
+/** Storage formats accepted for favicon.ico entries */
+const ICO_FORMATS: IcoFormat[] = ["png", "bmp", "hybrid"];
+
+/** Allowed values for enumerated manifest members */
+const MANIFEST_ENUMS: Partial<Record<keyof ManifestFields, string[]>> = {
+	display: ["fullscreen", "standalone", "minimal-ui", "browser"],
+	orientation: [
+		"any",
+		"natural",
+		"landscape",
+		"landscape-primary",
+		"landscape-secondary",
+		"portrait",
+		"portrait-primary",
+		"portrait-secondary",
+	],
+	dir: ["ltr", "rtl", "auto"],
+};
+
+/**
+ * Checks enumerated manifest members against the allowed values
+ * @param fields - Manifest fields from the options
+ * @returns The fields, unchanged
+ * @throws FavigenError naming the invalid member
+ */
+function resolveManifestFields(fields: ManifestFields = {}): ManifestFields {
+	for (const [key, allowed] of Object.entries(MANIFEST_ENUMS)) {
+		const value = fields[key as keyof ManifestFields];
+		if (value !== undefined && !allowed.includes(value as string)) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`Invalid manifest ${key} "${value}", expected one of: ${allowed.join(", ")}`,
+			);
+		}
+	}
+	return fields;
+}
+
+/**
+ * Normalises tile padding to a per-tile record and checks its range
+ * @param padding - Uniform or per-tile padding
+ * @returns Padding keyed by tile name
+ * @throws FavigenError if a value is out of range or a tile is unknown
+ */
+function resolveTilePadding(
+	padding: FavigenOptions["tilePadding"],
+): Partial<Record<TilePaddingKey, number>> {
+	const tileNames = [...TILES, TILE_IMAGE].map((tile) => tile.name as string);
+	const record =
+		typeof padding === "number"
+			? Object.fromEntries(tileNames.map((name) => [name, padding]))
+			: (padding ?? {});
+	for (const [name, value] of Object.entries(record)) {
+		if (!tileNames.includes(name)) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`Unknown tile "${name}" in tilePadding, expected one of: ${tileNames.join(", ")}`,
+			);
+		}
+		if (!(typeof value === "number" && value >= 0 && value < 0.5)) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`tilePadding for ${name} must be between 0 and 0.5, got ${value}`,
+			);
+		}
+	}
+	return record;
+}
+
+/**
+ * Checks a padding ratio lies in [0, 0.5)
+ * @throws FavigenError if the padding is out of range
+ */
+function checkPadding(name: string, padding: number | undefined) {
+	if (padding !== undefined && !(padding >= 0 && padding < 0.5)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`${name} must be between 0 and 0.5, got ${padding}`,
+		);
+	}
+}
+
+/**
+ * Checks a color option is a CSS color, since most of them are written
+ * verbatim into HTML, the manifest or browserconfig.xml
+ * @throws FavigenError if the value is not a color
+ */
+function checkColor(name: string, value: string | undefined) {
+	if (
+		value !== undefined &&
+		!(typeof value === "string" && isCssColor(value))
+	) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid ${name} "${value}", expected a CSS color such as "#336699"`,
+		);
+	}
+}
+
+/** Preprocessing keys, in the order they are documented */
+const PREPROCESS_KEYS: Array<keyof PreprocessOptions> = [
+	"trim",
+	"padding",
+	"fit",
+	"background",
+	"radius",
+	"circle",
+];
+
+/**
+ * Preprocessing keys each target accepts, and the ones it inherits from
+ * the top level. Apple and maskable icons keep their own padding and
+ * background defaults, and their platforms apply the corner mask.
+ */
+const PREPROCESS_TARGETS: Record<
+	PreprocessTarget,
+	{
+		accepts: Array<keyof PreprocessOptions>;
+		inherits: Array<keyof PreprocessOptions>;
+		reason: string;
+	}
+> = {
+	favicon: { accepts: PREPROCESS_KEYS, inherits: PREPROCESS_KEYS, reason: "" },
+	monochrome: {
+		accepts: ["trim", "padding", "fit", "radius", "circle"],
+		inherits: ["trim", "padding", "fit", "radius", "circle"],
+		reason: "monochrome icons only keep the logo's shape",
+	},
+	windows: {
+		accepts: PREPROCESS_KEYS,
+		inherits: ["trim", "fit", "radius", "circle"],
+		reason: "",
+	},
+	apple: {
+		accepts: ["trim", "padding", "fit", "background"],
+		inherits: ["trim", "fit"],
+		reason: "iOS rounds the corners of touch icons itself",
+	},
+	maskable: {
+		accepts: ["trim", "padding", "fit", "background"],
+		inherits: ["trim", "fit"],
+		reason: "the platform masks maskable icons itself",
+	},
+};
+
+/**
+ * Checks the values of one preprocessing block
+ * @param name - Option path for error messages
+ * @param settings - Preprocessing options
+ * @throws FavigenError if a value is invalid
+ */
+function checkPreprocess(name: string, settings: PreprocessOptions) {
+	const { trim, padding, fit, background, radius, circle } = settings;
+	for (const [key, value] of Object.entries({ trim, circle })) {
+		if (value !== undefined && typeof value !== "boolean") {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`${name}.${key} must be a boolean, got ${value}`,
+			);
+		}
+	}
+	checkPadding(`${name}.padding`, padding);
+	if (fit !== undefined && fit !== "contain" && fit !== "cover") {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid ${name}.fit "${fit}", expected "contain" or "cover"`,
+		);
+	}
+	checkColor(`${name}.background`, background);
+	if (radius !== undefined && !(radius >= 0 && radius <= 0.5)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`${name}.radius must be between 0 and 0.5, got ${radius}`,
+		);
+	}
+}
+
+/**
+ * Resolves the preprocessing of every target: per-platform values first,
+ * then the inherited top-level ones, then defaults
+ * @param preprocess - Preprocessing options
+ * @returns Settings per target
+ * @throws FavigenError if a key is unknown, invalid or unsupported by its target
+ */
+function resolvePreprocess(
+	preprocess: FavigenOptions["preprocess"] = {},
+): Record<PreprocessTarget, ResolvedPreprocess> {
+	const { platforms = {}, ...shared } = preprocess;
+	const targets = Object.keys(PREPROCESS_TARGETS) as PreprocessTarget[];
+	const checkKeys = (name: string, value: unknown, allowed: string[]) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new FavigenError("INVALID_OPTION", `${name} must be an object`);
+		}
+		for (const key of Object.keys(value)) {
+			if (!allowed.includes(key)) {
+				throw new FavigenError(
+					"INVALID_OPTION",
+					`Unknown key "${key}" in ${name}, expected one of: ${allowed.join(", ")}`,
+				);
+			}
+		}
+	};
+	checkKeys("preprocess", shared, PREPROCESS_KEYS);
+	checkPreprocess("preprocess", shared);
+	checkKeys("preprocess.platforms", platforms, targets);
+
+	const resolved = {} as Record<PreprocessTarget, ResolvedPreprocess>;
+	for (const target of targets) {
+		const { accepts, inherits, reason } = PREPROCESS_TARGETS[target];
+		const own = platforms[target] ?? {};
+		const name = `preprocess.platforms.${target}`;
+		checkKeys(name, own, PREPROCESS_KEYS);
+		checkPreprocess(name, own);
+		for (const key of PREPROCESS_KEYS) {
+			if (own[key] !== undefined && !accepts.includes(key)) {
+				throw new FavigenError(
+					"INVALID_OPTION",
+					`${name}.${key} is not supported: ${reason}`,
+				);
+			}
+		}
+		const settings: PreprocessOptions = Object.fromEntries(
+			inherits.map((key) => [key, shared[key]]),
+		);
+		for (const key of accepts) {
+			if (own[key] !== undefined) Object.assign(settings, { [key]: own[key] });
+		}
+		resolved[target] = {
+			trim: settings.trim ?? false,
+			padding: settings.padding,
+			// Plain favicons have always filled the square; canvases show the whole logo
+			fit: settings.fit ?? (target === "favicon" ? "cover" : "contain"),
+			background: settings.background,
+			radius: settings.circle ? 0 : (settings.radius ?? 0),
+			circle: settings.circle ?? false,
+		};
+	}
+	return resolved;
+}
+
+/**
+ * Checks a polling frequency against the values Windows accepts
+ * @throws FavigenError if the frequency is not allowed
+ */
+function checkPollingFrequency(name: string, frequency: number | undefined) {
+	if (frequency !== undefined && !POLLING_FREQUENCIES.includes(frequency)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid ${name} frequency ${frequency}, expected one of: ${POLLING_FREQUENCIES.join(", ")}`,
+		);
+	}
+}
+
+/**
+ * Resolves an input path, checks it is a file and reads its metadata
+ * @param input - Path as given by the user
+ * @param sources - Sources already read by other runs
+ * @returns Source image metadata
+ * @throws FavigenError if the file is missing or unsupported
+ */
+async function resolveSourceFile(
+	input: string,
+	sources?: SourceCache,
+): Promise<SourceImage> {
+	const inputPath = path.resolve(input);
+	const statResult = await fsStat(inputPath).catch(() => null);
+	if (!statResult || !statResult.isFile()) {
+		throw new FavigenError(
+			"INPUT_NOT_FOUND",
+			`Input file not found or not a file: ${input}`,
+		);
+	}
+	if (!sources) return readSourceImage(inputPath);
+
+	const { mtimeMs, size } = statResult;
+	const cached = sources.get(inputPath);
+	if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+		return cached.image;
+	}
+	const image = readSourceImage(inputPath);
+	sources.set(inputPath, { mtimeMs, size, image });
+	// A failed read is retried by the next run rather than cached
+	image.catch(() => {
+		if (sources.get(inputPath)?.image === image) sources.delete(inputPath);
+	});
+	return image;
+}
+
+/**
+ * Resolves the size-to-file mapping for per-size sources
+ * @param sourceMap - Mapping of icon size to source file
+ * @param sources - Sources already read by other runs
+ * @returns Map of size to source image
+ * @throws FavigenError if a key is not a positive integer
+ */
+async function resolveSourceMap(
+	sourceMap: FavigenOptions["sourceMap"],
+	sources?: SourceCache,
+): Promise<Map<number, SourceImage>> {
+	const resolved = new Map<number, SourceImage>();
+	for (const [key, file] of Object.entries(sourceMap ?? {})) {
+		const size = Number(key);
+		if (!Number.isInteger(size) || size <= 0) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`Invalid size in sourceMap: "${key}"`,
+			);
+		}
+		resolved.set(size, await resolveSourceFile(file, sources));
+	}
+	return resolved;
+}
+
+/**
+ * Parses a "size=file" list such as "16=small16.png,32=small32.png"
+ * @param list - Comma-separated mapping
+ * @returns Mapping of size to file
+ * @throws FavigenError if an entry is malformed
+ */
+export function parseSourceMap(list: string): Record<string, string> {
+	const map: Record<string, string> = {};
+	for (const entry of list.split(",")) {
+		const [size, file] = entry.split("=").map((part) => part.trim());
+		if (!size || !file) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`Invalid source mapping "${entry}", expected size=file`,
+			);
+		}
+		map[size] = file;
+	}
+	return map;
+}
+
+/**
+ * Validates user options, resolves paths and applies defaults
+ * @param options - Options passed to `generateFavicons`
+ * @param logger - Logger for path warnings
+ * @param sources - Sources already read by other runs, reused when unchanged
+ * @returns Resolved options and whether the output lies outside cwd
+ * @throws FavigenError if the input or output is unusable
+ */
+export async function resolveOptions(
+	options: FavigenOptions,
+	logger: Logger,
+	sources?: SourceCache,
+): Promise<{ resolved: ResolvedOptions; outsideCwd: boolean }> {
+	if (!options.input || typeof options.input !== "string") {
+		throw new FavigenError("INVALID_OPTION", "An input file is required.");
+	}
+
+	const platformNames =
+		options.platforms !== undefined
+			? parsePlatformList(options.platforms)
+			: undefined;
+	const platforms = platformNames && combinePlatforms(platformNames);
+	const cursor = options.cursor ?? false;
+	const sizes = resolveSizes(
+		options.sizes,
+		cursor ? CURSOR_SIZES : platforms?.sizes,
+	);
+	if (sizes.length === 0) {
+		// Only reachable through platforms without PNG icons (apple, windows)
+		logger.warn(
+			`⚠ No PNG icon sizes for platforms "${platformNames?.join(",")}", add "web" for browser tab icons`,
+		);
+	}
+	if (cursor && sizes.some((size) => size > MAX_ICO_SIZE)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Cursor sizes must not exceed ${MAX_ICO_SIZE}px.`,
+		);
+	}
+	const icoSizes = resolveIcoSizes(options.icoSizes);
+	const kernel = options.kernel ?? "lanczos3";
+	if (!RESIZE_KERNELS.includes(kernel)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid kernel "${kernel}", expected one of: ${RESIZE_KERNELS.join(", ")}`,
+		);
+	}
+	const {
+		pngColors = 256,
+		pngDither = 1,
+		pngCompression = 9,
+		stripMetadata = true,
+	} = options;
+	if (!(Number.isInteger(pngColors) && pngColors >= 2 && pngColors <= 256)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`pngColors must be an integer between 2 and 256, got ${pngColors}`,
+		);
+	}
+	if (!(pngDither >= 0 && pngDither <= 1)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`pngDither must be between 0 and 1, got ${pngDither}`,
+		);
+	}
+	if (
+		!(
+			Number.isInteger(pngCompression) &&
+			pngCompression >= 0 &&
+			pngCompression <= 9
+		)
+	) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`pngCompression must be an integer between 0 and 9, got ${pngCompression}`,
+		);
+	}
+	const sizeBudget =
+		options.sizeBudget !== undefined
+			? parseByteSize(options.sizeBudget)
+			: undefined;
+	if (sizeBudget !== undefined && !(sizeBudget > 0)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid sizeBudget "${options.sizeBudget}", expected bytes or a size such as "40KB"`,
+		);
+	}
+	const formats = resolveFormats(options.formats);
+	const quality = { ...DEFAULT_QUALITY };
+	for (const format of IMAGE_FORMATS) {
+		const value = options[`${format}Quality`];
+		if (value === undefined) continue;
+		if (!(Number.isInteger(value) && value >= 1 && value <= 100)) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`${format}Quality must be an integer between 1 and 100, got ${value}`,
+			);
+		}
+		quality[format] = value;
+	}
+	const sharpen =
+		options.sharpen === true
+			? DEFAULT_SHARPEN_SIZE
+			: Number(options.sharpen ?? 0);
+	if (!(Number.isInteger(sharpen) && sharpen >= 0)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`sharpen must be true or a maximum icon size in pixels, got ${options.sharpen}`,
+		);
+	}
+	const enabled = (companion: Exclude<PlatformCompanion, "ico">) =>
+		options[companion] || platforms?.enables.has(companion) || false;
+
+	for (const name of [
+		"themeColor",
+		"themeColorDark",
+		"backgroundColor",
+		"appleBackground",
+		"maskableBackground",
+	] as const) {
+		checkColor(name, options[name]);
+	}
+	for (const name of ["svgDark", "dark"] as const) {
+		if (options[name] !== "invert") checkColor(name, options[name]);
+	}
+
+	// Validate and resolve input paths and image formats
+	const source = await resolveSourceFile(options.input, sources);
+	const extraSources = options.inputSmall
+		? [await resolveSourceFile(options.inputSmall, sources)]
+		: [];
+	const sourceMap = await resolveSourceMap(options.sourceMap, sources);
+	const darkSource = options.inputDark
+		? await resolveSourceFile(options.inputDark, sources)
+		: undefined;
+	if (darkSource && options.dark) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			"Use either inputDark (a dark-mode source) or dark (a derived variant), not both",
+		);
+	}
+
+	// Validate and resolve output path - supports any valid filesystem path
+	const outputPath = path.resolve(options.output ?? DEFAULT_OUTPUT);
+	const normalizedOutput = path.normalize(outputPath);
+	const outsideCwd = path
+		.relative(process.cwd(), normalizedOutput)
+		.startsWith("..");
+	if (outsideCwd) {
+		logger.warn(
+			`⚠ Output path is outside current directory: ${normalizedOutput}`,
+		);
+	}
+
+	// Check the output parent is a directory if it exists
+	const outputDir = path.dirname(outputPath);
+	const outputDirStat = await fsStat(outputDir).catch(() => null);
+	if (outputDirStat && !outputDirStat.isDirectory()) {
+		throw new FavigenError(
+			"OUTPUT_NOT_DIRECTORY",
+			`Output parent path exists but is not a directory: ${outputDir}`,
+		);
+	}
+
+	const preprocess = resolvePreprocess(options.preprocess);
+	if (Object.values(preprocess).some((settings) => settings.trim)) {
+		for (const image of [
+			source,
+			...extraSources,
+			...sourceMap.values(),
+			...(darkSource ? [darkSource] : []),
+		]) {
+			// A shared source keeps the box measured by an earlier run
+			image.trimBox ??= await measureTrimBox(image);
+		}
+	}
+
+	// Dedicated options win over per-platform preprocessing
+	const maskablePadding =
+		options.maskablePadding ?? preprocess.maskable.padding;
+	const applePadding = options.applePadding ?? preprocess.apple.padding ?? 0.1;
+	checkPadding("maskablePadding", maskablePadding);
+	checkPadding("applePadding", applePadding);
+
+	checkPollingFrequency(
+		"tileNotification",
+		options.tileNotification?.frequency,
+	);
+	checkPollingFrequency("tileBadge", options.tileBadge?.frequency);
+	if (
+		options.tileNotification &&
+		options.tileNotification.pollingUris.length === 0
+	) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			"tileNotification.pollingUris must contain at least one URI",
+		);
+	}
+
+	const icoFormat = options.icoFormat ?? "hybrid";
+	if (!ICO_FORMATS.includes(icoFormat)) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Invalid icoFormat "${icoFormat}", expected one of: ${ICO_FORMATS.join(", ")}`,
+		);
+	}
+
+	const manifestFileName = options.manifestFileName ?? "site.webmanifest";
+	if (path.basename(manifestFileName) !== manifestFileName) {
+		throw new FavigenError(
+			"INVALID_OPTION",
+			`Manifest file name must not contain a directory: ${manifestFileName}`,
+		);
+	}
+
+	// The inject target must already be an HTML file we can rewrite
+	const injectPath = options.inject ? path.resolve(options.inject) : undefined;
+	if (injectPath) {
+		const injectStat = await fsStat(injectPath).catch(() => null);
+		if (!injectStat?.isFile()) {
+			throw new FavigenError(
+				"INPUT_NOT_FOUND",
+				`HTML file to inject into not found: ${options.inject}`,
+			);
+		}
+	}
+
+	return {
+		resolved: {
+			input: source.path,
+			source,
+			extraSources,
+			sourceMap,
+			darkSource,
+			output: outputPath,
+			sizes,
+			kernel,
+			sharpen,
+			yes: options.yes ?? false,
+			dryRun: options.dryRun ?? false,
+			force: options.force ?? false,
+			backup: options.backup ?? false,
+			ico: platforms ? platforms.enables.has("ico") : true,
+			icoSizes,
+			png: {
+				palette:
+					options.pngPalette ??
+					(options.pngColors !== undefined || options.pngDither !== undefined),
+				colors: pngColors,
+				dither: pngDither,
+				compressionLevel: pngCompression,
+				stripMetadata,
+			},
+			sizeBudget,
+			formats,
+			quality,
+			icoFormat,
+			cursor,
+			cursorHotspot: resolveHotspot(options.cursorHotspot, source),
+			manifest: enabled("manifest"),
+			manifestFileName,
+			manifestMerge: options.manifestMerge ?? false,
+			manifestFields: resolveManifestFields(options.manifestFields),
+			maskable: enabled("maskable"),
+			maskableBackground:
+				options.maskableBackground ?? preprocess.maskable.background,
+			maskablePadding,
+			maskablePreview: options.maskablePreview ?? false,
+			monochrome: options.monochrome ?? false,
+			apple: enabled("apple"),
+			appleBackground: options.appleBackground ?? preprocess.apple.background,
+			applePadding,
+			appleStartupImages: options.appleStartupImages ?? false,
+			browserconfig: enabled("browserconfig"),
+			tilePadding: resolveTilePadding(
+				options.tilePadding ?? preprocess.windows.padding,
+			),
+			tileImage: options.tileImage ?? false,
+			tileNotification: options.tileNotification,
+			tileBadge: options.tileBadge,
+			appName: options.appName ?? "App",
+			themeColor: options.themeColor,
+			backgroundColor: options.backgroundColor,
+			svgDark: options.svgDark,
+			dark: options.dark,
+			themeColorDark: options.themeColorDark,
+			preprocess,
+			htmlFile: options.htmlFile ? path.resolve(options.htmlFile) : undefined,
+			inject: injectPath,
+			publicPath: options.publicPath ?? "/",
+		},
+		outsideCwd,
+	};
+}
@@ -0,0 +1,194 @@
+import sharp from "sharp";
+import type { PaletteColor } from "../types";
+
+type Rgb = [number, number, number];
+
+/** Longest side the image is sampled at */
+export const PALETTE_SAMPLE_SIZE = 64;
+
+/** Pixels with less alpha than this are treated as transparent */
+const MIN_ALPHA = 128;
+
+/** Channel bounds for pixels that count as near-white or near-black */
+const NEAR_WHITE = 240;
+const NEAR_BLACK = 16;
+
+/** Buckets closer than this (RGB distance) are merged into one color */
+const MERGE_DISTANCE = 48;
+
+/** Minimum contrast WCAG 2.1 requires for graphical objects (SC 1.4.11) */
+export const MIN_GRAPHIC_CONTRAST = 3;
+
+interface Cluster {
+	count: number;
+	sum: Rgb;
+}
+
+function toHex(rgb: Rgb): string {
+	return `#${rgb.map((x) => x.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function mean(cluster: Cluster): Rgb {
+	return cluster.sum.map((x) => Math.round(x / cluster.count)) as Rgb;
+}
+
+function distance(a: Rgb, b: Rgb): number {
+	return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Groups pixels into 5-bit buckets, then merges neighbouring buckets,
+ * most populated first
+ */
+function cluster(buckets: Map<number, Cluster>): Cluster[] {
+	const clusters: Cluster[] = [];
+	const sorted = [...buckets.values()].sort((a, b) => b.count - a.count);
+	for (const bucket of sorted) {
+		const color = mean(bucket);
+		const near = clusters.find(
+			(c) => distance(mean(c), color) < MERGE_DISTANCE,
+		);
+		if (near) {
+			near.count += bucket.count;
+			for (let i = 0; i < 3; i++) near.sum[i] += bucket.sum[i];
+		} else {
+			clusters.push({ count: bucket.count, sum: [...bucket.sum] });
+		}
+	}
+	return clusters.sort((a, b) => b.count - a.count);
+}
+
+function addPixel(buckets: Map<number, Cluster>, rgb: Rgb) {
+	const key = ((rgb[0] >> 3) << 10) | ((rgb[1] >> 3) << 5) | (rgb[2] >> 3);
+	const bucket = buckets.get(key);
+	if (bucket) {
+		bucket.count++;
+		for (let i = 0; i < 3; i++) bucket.sum[i] += rgb[i];
+	} else {
+		buckets.set(key, { count: 1, sum: [...rgb] });
+	}
+}
+
+/**
+ * Extracts the dominant colors of an image. Transparent pixels are
+ * ignored, and so are near-white and near-black pixels unless the image
+ * has nothing else.
+ * @param input - Path to the image, or its encoded data
+ * @param count - Maximum number of colors to return
+ * @returns Colors ordered by the share of pixels they cover; empty for a
+ * fully transparent image
+ */
+export async function extractPalette(
+	input: string | Buffer,
+	count = 5,
+): Promise<PaletteColor[]> {
+	const { data } = await sharp(input)
+		.resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: "inside" })
+		.ensureAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	const colored = new Map<number, Cluster>();
+	const neutral = new Map<number, Cluster>();
+	for (let i = 0; i < data.length; i += 4) {
+		if (data[i + 3] < MIN_ALPHA) continue;
+		const rgb: Rgb = [data[i], data[i + 1], data[i + 2]];
+		const isNeutral =
+			Math.min(...rgb) >= NEAR_WHITE || Math.max(...rgb) <= NEAR_BLACK;
+		addPixel(isNeutral ? neutral : colored, rgb);
+	}
+
+	const clusters = cluster(colored.size > 0 ? colored : neutral);
+	const total = clusters.reduce((sum, c) => sum + c.count, 0);
+	return clusters.slice(0, count).map((c) => {
+		const rgb = mean(c);
+		return { hex: toHex(rgb), rgb, share: c.count / total };
+	});
+}
+
+/**
+ * Parses a hex (#rgb, #rrggbb, with optional alpha) or rgb()/rgba() color
+ * @param value - CSS color string
+ * @returns RGB channels, or null for other notations such as named colors
+ */
+export function parseColor(value: string): Rgb | null {
+	const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value.trim());
+	if (hex) {
+		const digits =
+			hex[1].length <= 4 ? [...hex[1]].map((d) => d + d).join("") : hex[1];
+		return [0, 2, 4].map((i) =>
+			Number.parseInt(digits.slice(i, i + 2), 16),
+		) as Rgb;
+	}
+	const fn = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i.exec(value.trim());
+	if (fn) {
+		return [fn[1], fn[2], fn[3]].map((x) => Math.min(255, Number(x))) as Rgb;
+	}
+	return null;
+}
+
+/** CSS named colors (CSS Color Module Level 4), plus "transparent" */
+const CSS_COLOR_NAMES = new Set(
+	`aliceblue antiquewhite aqua aquamarine azure beige bisque black
+	blanchedalmond blue blueviolet brown burlywood cadetblue chartreuse
+	chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan
+	darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta
+	darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen
+	darkslateblue darkslategray darkslategrey darkturquoise darkviolet
+	deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite
+	forestgreen fuchsia gainsboro ghostwhite gold goldenrod gray green
+	greenyellow grey honeydew hotpink indianred indigo ivory khaki lavender
+	lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan
+	lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon
+	lightseagreen lightskyblue lightslategray lightslategrey lightsteelblue
+	lightyellow lime limegreen linen magenta maroon mediumaquamarine
+	mediumblue mediumorchid mediumpurple mediumseagreen mediumslateblue
+	mediumspringgreen mediumturquoise mediumvioletred midnightblue mintcream
+	mistyrose moccasin navajowhite navy oldlace olive olivedrab orange
+	orangered orchid palegoldenrod palegreen paleturquoise palevioletred
+	papayawhip peachpuff peru pink plum powderblue purple rebeccapurple red
+	rosybrown royalblue saddlebrown salmon sandybrown seagreen seashell
+	sienna silver skyblue slateblue slategray slategrey snow springgreen
+	steelblue tan teal thistle tomato transparent turquoise violet wheat
+	white whitesmoke yellow yellowgreen`.split(/\s+/),
+);
+
+/**
+ * Checks that a string is a CSS color: hex, a color function such as
+ * rgb(), hsl() or oklch(), or a named color. Function arguments are not
+ * checked.
+ * @param value - Color as given by the user
+ * @returns True for a valid color
+ */
+export function isCssColor(value: string): boolean {
+	const color = value.trim().toLowerCase();
+	return (
+		/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(color) ||
+		/^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]+\)$/.test(color) ||
+		CSS_COLOR_NAMES.has(color)
+	);
+}
+
+/**
+ * Relative luminance as defined by WCAG 2.1
+ * @param rgb - sRGB channels (0-255)
+ * @returns Luminance between 0 (black) and 1 (white)
+ */
+export function relativeLuminance(rgb: Rgb): number {
+	const [r, g, b] = rgb.map((x) => {
+		const c = x / 255;
+		return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+	});
+	return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors
+ * @returns Ratio between 1 and 21
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+	const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort(
+		(x, y) => y - x,
+	);
+	return (hi + 0.05) / (lo + 0.05);
+}
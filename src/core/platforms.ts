@@ -0,0 +1,126 @@
+import { FavigenError } from "../errors";
+import type { PlatformName } from "../types";
+import { FAVICON_SIZES } from "../utils";
+
+/**
+ * Optional outputs a platform target can switch on
+ */
+export type PlatformCompanion =
+	| "ico"
+	| "manifest"
+	| "apple"
+	| "maskable"
+	| "browserconfig";
+
+/**
+ * Everything a platform target contributes to a run
+ */
+export interface PlatformPreset {
+	name: PlatformName;
+	description: string;
+	/** PNG icon sizes (icon-{size}x{size}.png) */
+	sizes: number[];
+	/** Companion outputs switched on by the target */
+	enables: PlatformCompanion[];
+	/** Files the target produces, for `favigen list-presets` */
+	files: string[];
+}
+
+/** Built-in platform targets */
+export const PLATFORM_PRESETS: Record<PlatformName, PlatformPreset> = {
+	web: {
+		name: "web",
+		description: "Classic browser favicons",
+		sizes: [...FAVICON_SIZES.SMALL, FAVICON_SIZES.MEDIUM[0]],
+		enables: ["ico"],
+		files: [
+			"favicon.ico",
+			"favicon.svg (SVG input)",
+			"icon-16x16.png",
+			"icon-32x32.png",
+			"icon-48x48.png",
+		],
+	},
+	apple: {
+		name: "apple",
+		description: "iOS/iPadOS home screen icon",
+		sizes: [],
+		enables: ["apple"],
+		files: ["apple-touch-icon.png", "apple-touch-icon-precomposed.png"],
+	},
+	android: {
+		name: "android",
+		description: "Android Chrome icons and web app manifest",
+		sizes: [...FAVICON_SIZES.ANDROID],
+		enables: ["manifest"],
+		files: ["icon-192x192.png", "icon-512x512.png", "site.webmanifest"],
+	},
+	windows: {
+		name: "windows",
+		description: "Windows pinned site tiles",
+		sizes: [],
+		enables: ["browserconfig"],
+		files: [
+			"mstile-70x70.png",
+			"mstile-150x150.png",
+			"mstile-310x150.png",
+			"mstile-310x310.png",
+			"browserconfig.xml",
+		],
+	},
+	pwa: {
+		name: "pwa",
+		description: "Installable web app with maskable icons",
+		sizes: [...FAVICON_SIZES.ANDROID],
+		enables: ["manifest", "maskable"],
+		files: [
+			"icon-192x192.png",
+			"icon-512x512.png",
+			"icon-maskable-192x192.png",
+			"icon-maskable-512x512.png",
+			"site.webmanifest",
+		],
+	},
+};
+
+/**
+ * Parses a platform list such as "web,apple,pwa"
+ * @param list - Comma-separated platform names
+ * @returns Platform names
+ * @throws FavigenError if a name is unknown
+ */
+export function parsePlatformList(list: string | string[]): PlatformName[] {
+	const names = (typeof list === "string" ? list.split(",") : list)
+		.map((name) => name.trim())
+		.filter(Boolean);
+	for (const name of names) {
+		// Own keys only, so names such as "constructor" are rejected too
+		if (!Object.keys(PLATFORM_PRESETS).includes(name)) {
+			throw new FavigenError(
+				"INVALID_OPTION",
+				`Unknown platform "${name}", expected one of: ${Object.keys(PLATFORM_PRESETS).join(", ")}`,
+			);
+		}
+	}
+	return names as PlatformName[];
+}
+
+/**
+ * Combines platform targets into one size list and set of companions,
+ * without duplicates
+ * @param platforms - Selected platforms
+ * @returns Merged sizes (in first-seen order) and enabled companions
+ */
+export function combinePlatforms(platforms: PlatformName[]): {
+	sizes: number[];
+	enables: Set<PlatformCompanion>;
+} {
+	const sizes = new Set<number>();
+	const enables = new Set<PlatformCompanion>();
+	for (const name of platforms) {
+		const preset = PLATFORM_PRESETS[name];
+		for (const size of preset.sizes) sizes.add(size);
+		for (const companion of preset.enables) enables.add(companion);
+	}
+	return { sizes: [...sizes], enables };
+}
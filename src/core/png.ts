@@ -0,0 +1,103 @@
+import path from "path";
+import sharp from "sharp";
+import type { ImageFormat } from "../types";
+import { readFile } from "../utils";
+import { type GenerationContext, prepareWrite, writeFileSafe } from "./context";
+import { optimizePng } from "./optimize";
+import { renderIcon } from "./preprocess";
+
+/** Formats accepted by the formats option, most compact first */
+export const IMAGE_FORMATS: ImageFormat[] = ["avif", "webp"];
+
+/** MIME types of the icon formats, for manifest and HTML `type` attributes */
+export const IMAGE_MIME_TYPES: Record<ImageFormat | "png", string> = {
+	avif: "image/avif",
+	webp: "image/webp",
+	png: "image/png",
+};
+
+/**
+ * Names an icon file
+ * @param size - Icon size
+ * @param format - File format, defaults to PNG
+ * @returns File name such as "icon-32x32.png"
+ */
+export function iconFileName(
+	size: number,
+	format: ImageFormat | "png" = "png",
+): string {
+	return `icon-${size}x${size}.${format}`;
+}
+
+/**
+ * Encodes a rendered icon as WebP or AVIF
+ * @param ctx - Generation context
+ * @param png - Rendered PNG
+ * @param format - Target format
+ * @returns Encoded image
+ */
+function encodeImage(
+	ctx: GenerationContext,
+	png: Buffer,
+	format: ImageFormat,
+): Promise<Buffer> {
+	const quality = ctx.options.quality[format];
+	const image = sharp(png);
+	return (
+		format === "avif" ? image.avif({ quality }) : image.webp({ quality })
+	).toBuffer();
+}
+
+/**
+ * Resizes the source image to every requested size and writes the PNGs,
+ * plus a sibling per extra format
+ * @param ctx - Generation context
+ * @returns PNG icons that were generated (skipped files excluded)
+ */
+export async function generatePngIcons(
+	ctx: GenerationContext,
+): Promise<Array<{ size: number; buffer: Buffer }>> {
+	const { options, logger } = ctx;
+	logger.info(`⏳ Resizing ${options.sizes.length} PNG icons...`);
+
+	const buffers = await Promise.all(
+		options.sizes.map(async (size) => {
+			// Rendered once, when the first file of the size needs writing
+			let rendered: Promise<Buffer> | undefined;
+			const render = () => {
+				rendered ??= renderIcon(ctx, size, options.preprocess.favicon);
+				return rendered;
+			};
+
+			for (const format of options.formats) {
+				const fileName = iconFileName(size, format);
+				const outPath = path.join(options.output, fileName);
+				if ((await prepareWrite(ctx, outPath, { size })) !== "write") continue;
+				await writeFileSafe(
+					ctx,
+					outPath,
+					await encodeImage(ctx, await render(), format),
+				);
+				logger.success(`✔ Generated ${fileName}`);
+			}
+
+			const fileName = iconFileName(size);
+			const outPath = path.join(options.output, fileName);
+			const state = await prepareWrite(ctx, outPath, { size });
+			if (state === "skip") return null;
+			if (state === "up-to-date") {
+				return { size, buffer: await readFile(outPath) };
+			}
+			const buf = await optimizePng(ctx, await render());
+			await writeFileSafe(ctx, outPath, buf);
+			logger.success(`✔ Generated ${fileName}`);
+			return { size, buffer: buf };
+		}),
+	);
+
+	const good = buffers.filter((b) => b !== null);
+	logger.info(
+		`✅ Completed PNG icons (${good.length}/${options.sizes.length})`,
+	);
+	return good;
+}
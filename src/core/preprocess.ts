@@ -0,0 +1,181 @@
+import sharp from "sharp";
+import type { GenerationContext, ResolvedPreprocess } from "./context";
+import { renderSource, type SourceImage, selectSource } from "./source";
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+/**
+ * Renders the logo into a box with the run's kernel and sharpening
+ * @param ctx - Generation context
+ * @param source - Source to render
+ * @param width - Box width
+ * @param height - Box height
+ * @param settings - Trim and fit of the logo
+ * @returns PNG buffer
+ */
+async function renderLogo(
+	ctx: GenerationContext,
+	source: SourceImage,
+	width: number,
+	height: number,
+	settings: Pick<ResolvedPreprocess, "trim" | "fit">,
+): Promise<Buffer> {
+	const image = await renderSource(source, width, height, {
+		resize: { fit: settings.fit, background: TRANSPARENT },
+		trim: settings.trim,
+		kernel: ctx.options.kernel,
+		sharpen: ctx.options.sharpen,
+	});
+	return image.png().toBuffer();
+}
+
+/**
+ * Builds the mask for a border radius or circular crop
+ * @param width - Image width
+ * @param height - Image height
+ * @param shape - Radius (fraction of the shorter side) and circle settings
+ * @returns SVG mask, or undefined when the image keeps its square corners
+ */
+function shapeMask(
+	width: number,
+	height: number,
+	shape: Pick<ResolvedPreprocess, "radius" | "circle">,
+): Buffer | undefined {
+	let element: string;
+	if (shape.circle) {
+		const r = Math.min(width, height) / 2;
+		element = `<circle cx="${width / 2}" cy="${height / 2}" r="${r}"/>`;
+	} else if (shape.radius > 0) {
+		const r = (Math.min(width, height) * shape.radius).toFixed(2);
+		element = `<rect width="${width}" height="${height}" rx="${r}" ry="${r}"/>`;
+	} else {
+		return undefined;
+	}
+	return Buffer.from(
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${element}</svg>`,
+	);
+}
+
+/**
+ * Rounds the corners of an image or crops it to a circle
+ * @param image - PNG buffer
+ * @param width - Image width
+ * @param height - Image height
+ * @param shape - Radius and circle settings
+ * @returns PNG buffer, the input itself when there is nothing to mask
+ */
+async function applyShape(
+	image: Buffer,
+	width: number,
+	height: number,
+	shape: Pick<ResolvedPreprocess, "radius" | "circle">,
+): Promise<Buffer> {
+	const mask = shapeMask(width, height, shape);
+	if (!mask) return image;
+	return sharp(image)
+		.ensureAlpha()
+		.composite([{ input: mask, blend: "dest-in" }])
+		.png()
+		.toBuffer();
+}
+
+/**
+ * Renders a square icon with a target's preprocessing: the (trimmed) logo
+ * fitted inside the padding, on the fill color, with the shape mask applied
+ * @param ctx - Generation context
+ * @param size - Icon size
+ * @param settings - Preprocessing of the target being rendered
+ * @param source - Source to render, defaults to the best one for the size
+ * @returns PNG buffer
+ */
+export async function renderIcon(
+	ctx: GenerationContext,
+	size: number,
+	settings: ResolvedPreprocess,
+	source: SourceImage = selectSource(ctx, size),
+): Promise<Buffer> {
+	const inner = Math.max(
+		1,
+		Math.round(size * (1 - 2 * (settings.padding ?? 0))),
+	);
+	const logo = await renderLogo(ctx, source, inner, inner, settings);
+	if (
+		inner === size &&
+		!settings.background &&
+		!settings.circle &&
+		settings.radius === 0
+	) {
+		return logo;
+	}
+
+	const offset = Math.floor((size - inner) / 2);
+	const composed = await sharp({
+		create: {
+			width: size,
+			height: size,
+			channels: 4,
+			background: settings.background ?? TRANSPARENT,
+		},
+	})
+		.composite([{ input: logo, left: offset, top: offset }])
+		.png()
+		.toBuffer();
+	return applyShape(composed, size, size, settings);
+}
+
+/**
+ * Renders the logo into a box and composites it onto a solid canvas
+ * @param ctx - Generation context
+ * @param canvas - Canvas size and color; `opaque` drops the alpha channel
+ * @param box - Logo box size; centred unless `left`/`top` are given
+ * @param settings - Trim and fit of the logo, and the canvas shape mask
+ * @returns PNG buffer
+ */
+export async function renderOnCanvas(
+	ctx: GenerationContext,
+	canvas: {
+		width: number;
+		height: number;
+		background: string;
+		opaque?: boolean;
+	},
+	box: { width: number; height: number; left?: number; top?: number },
+	settings: Pick<ResolvedPreprocess, "trim" | "fit" | "radius" | "circle">,
+): Promise<Buffer> {
+	const width = Math.max(1, Math.round(box.width));
+	const height = Math.max(1, Math.round(box.height));
+	const logo = await renderLogo(
+		ctx,
+		selectSource(ctx, width, height),
+		width,
+		height,
+		settings,
+	);
+	const composed = sharp({
+		create: {
+			width: canvas.width,
+			height: canvas.height,
+			channels: 4,
+			background: canvas.background,
+		},
+	}).composite([
+		{
+			input: logo,
+			left: box.left ?? Math.round((canvas.width - width) / 2),
+			top: box.top ?? Math.round((canvas.height - height) / 2),
+		},
+	]);
+	if (!canvas.opaque) {
+		return applyShape(
+			await composed.png().toBuffer(),
+			canvas.width,
+			canvas.height,
+			settings,
+		);
+	}
+	// Compositing always yields an alpha channel, so drop it in a second pass
+	return sharp(await composed.png().toBuffer())
+		.removeAlpha()
+		.png()
+		.toBuffer();
+}
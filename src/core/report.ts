@@ -0,0 +1,91 @@
+import path from "path";
+import { FavigenError } from "../errors";
+import type { SizeReport } from "../types";
+import { stat } from "../utils";
+import type { GenerationContext } from "./context";
+
+/**
+ * Formats a byte count for reports
+ * @param bytes - Size in bytes
+ * @returns e.g. "512 B" or "12.3 KB"
+ */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 ** 2).toFixed(2)} MB`;
+}
+
+/**
+ * Suggests how to shrink the output, based on its largest file
+ * @param ctx - Generation context
+ * @param largest - Name of the largest file
+ * @returns Tip for the budget error
+ */
+function budgetTip(ctx: GenerationContext, largest: string): string {
+	const { options } = ctx;
+	if (largest === "favicon.ico") {
+		return options.icoFormat === "png"
+			? "Try fewer --ico-sizes"
+			: "Try --ico-format png or fewer --ico-sizes (BMP entries are uncompressed)";
+	}
+	if (largest.endsWith(".png") && !options.png.palette) {
+		return "Try --png-colors 64 or fewer --sizes";
+	}
+	return "Try fewer --sizes or platforms, or a larger --size-budget";
+}
+
+/**
+ * Collects the sizes of the files in the output directory, written or
+ * kept up to date, and logs them with the total
+ * @param ctx - Generation context
+ * @param partial - Only some steps ran, so the total does not cover the
+ * whole output and is not checked against the budget
+ * @returns Size report
+ * @throws FavigenError if the total exceeds the size budget
+ */
+export async function reportSizes(
+	ctx: GenerationContext,
+	partial = false,
+): Promise<SizeReport> {
+	const { options, logger } = ctx;
+	const inOutput = (file: string) =>
+		!path.relative(options.output, file).startsWith("..");
+	const sizes = new Map<string, number>();
+	for (const file of ctx.files) {
+		if (inOutput(file.path)) sizes.set(file.name, file.bytes);
+	}
+	for (const file of ctx.upToDate) {
+		if (!inOutput(file)) continue;
+		sizes.set(path.relative(options.output, file), (await stat(file)).size);
+	}
+
+	const files = [...sizes]
+		.map(([name, bytes]) => ({ name, bytes }))
+		.sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+	const total = files.reduce((sum, file) => sum + file.bytes, 0);
+	const budget = partial ? undefined : options.sizeBudget;
+	const report: SizeReport = { files, total, budget };
+	if (files.length === 0) return report;
+
+	const width = Math.max(...files.map((file) => file.name.length));
+	logger.info(
+		partial ? "📦 Sizes of the regenerated files:" : "📦 Output sizes:",
+	);
+	for (const file of files) {
+		logger.info(
+			`   ${file.name.padEnd(width)}  ${formatBytes(file.bytes).padStart(9)}`,
+		);
+	}
+	const suffix = budget ? ` of ${formatBytes(budget)} budget` : "";
+	logger.info(
+		`   ${"Total".padEnd(width)}  ${formatBytes(total).padStart(9)}${suffix}`,
+	);
+	if (budget && total > budget) {
+		logger.info(`💡 ${budgetTip(ctx, files[0].name)}`);
+		throw new FavigenError(
+			"BUDGET_EXCEEDED",
+			`Output is ${formatBytes(total)}, ${formatBytes(total - budget)} over the ${formatBytes(budget)} size budget`,
+		);
+	}
+	return report;
+}
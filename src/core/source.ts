@@ -0,0 +1,377 @@
+import path from "path";
+import sharp from "sharp";
+import { FavigenError } from "../errors";
+import type { ResizeKernel } from "../types";
+import { isValidIco, readFile } from "../utils";
+import { type GenerationContext, warn } from "./context";
+import { readIcoFile } from "./extract";
+
+/** Raster formats sharp can decode that we accept */
+const RASTER_FORMATS = ["png", "jpeg", "jpg", "webp"];
+
+/** Density sharp assumes for SVG documents without an explicit one */
+const SVG_BASE_DENSITY = 72;
+
+/** Longest side SVG sources are rasterized at to find their trim box */
+const TRIM_SAMPLE_SIZE = 512;
+
+/** Resampling kernels accepted by the kernel option */
+export const RESIZE_KERNELS: ResizeKernel[] = [
+	"nearest",
+	"cubic",
+	"mitchell",
+	"lanczos2",
+	"lanczos3",
+];
+
+/** Raster sources are halved down to this shorter side for stepwise resizing */
+const MIN_LEVEL_SIZE = 16;
+
+/** Unsharp mask radius for small icons */
+const SHARPEN_SIGMA = 0.5;
+
+/**
+ * Region of a source image, in source pixels
+ */
+export interface SourceBox {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Decoded pixels of a raster source at one scale
+ */
+interface SourceLevel {
+	/** Pipeline over the raw pixels; clone it before adding operations */
+	image: sharp.Sharp;
+	width: number;
+	height: number;
+}
+
+/**
+ * How a source is rendered at a size
+ */
+export interface RenderOptions {
+	/** Extra resize options such as `fit` */
+	resize?: sharp.ResizeOptions;
+	/** Crop to the source's trim box before resizing */
+	trim?: boolean;
+	/** Resampling kernel, defaults to lanczos3 */
+	kernel?: ResizeKernel;
+	/** Sharpen the result when its longest side is at most this size */
+	sharpen?: number;
+}
+
+/**
+ * Decoded metadata about the source image
+ */
+export interface SourceImage {
+	path: string;
+	format: string;
+	width: number;
+	height: number;
+	isSvg: boolean;
+	/** Decoded PNG for inputs sharp cannot read directly (ICO) */
+	data?: Buffer;
+	/** Content without transparent or uniform borders, set when trimming */
+	trimBox?: SourceBox;
+	/** Raster pixels, decoded once and shared by every render */
+	decoded?: Promise<SourceLevel>;
+	/** Stepwise halvings of the decoded pixels per kernel, largest first */
+	levels?: Map<ResizeKernel, Promise<SourceLevel[]>>;
+}
+
+/**
+ * Sources read by earlier runs, keyed by absolute path. An entry is reused
+ * while the file's modification time and size are unchanged, so its decoded
+ * pixels are shared instead of decoded again.
+ */
+export type SourceCache = Map<
+	string,
+	{ mtimeMs: number; size: number; image: Promise<SourceImage> }
+>;
+
+/**
+ * Reads the largest image of an ICO file as the source
+ * @param inputPath - Absolute path to the ICO file
+ * @returns Source image metadata with the decoded PNG
+ */
+async function readIcoSource(inputPath: string): Promise<SourceImage> {
+	const { images } = await readIcoFile(inputPath);
+	const [largest] = [...images].sort(
+		(a, b) =>
+			b.width * b.height - a.width * a.height || b.bitDepth - a.bitDepth,
+	);
+	return {
+		path: inputPath,
+		format: "ico",
+		width: largest.width,
+		height: largest.height,
+		isSvg: false,
+		data: largest.png,
+	};
+}
+
+/**
+ * Reads and validates the source image
+ * @param inputPath - Absolute path to the source image
+ * @returns Source image metadata
+ * @throws FavigenError if the format is not supported
+ */
+export async function readSourceImage(inputPath: string): Promise<SourceImage> {
+	const header = await readFile(inputPath)
+		.then((data) => data.subarray(0, 6))
+		.catch(() => Buffer.alloc(0));
+	if (isValidIco(header)) {
+		return readIcoSource(inputPath);
+	}
+
+	const meta = await sharp(inputPath)
+		.metadata()
+		.catch(() => null);
+	const format = meta?.format;
+	if (
+		!meta ||
+		!format ||
+		!(format === "svg" || RASTER_FORMATS.includes(format))
+	) {
+		throw new FavigenError(
+			"UNSUPPORTED_FORMAT",
+			"Unsupported input format. Use SVG, PNG, JPEG, WebP, or ICO.",
+		);
+	}
+	return {
+		path: inputPath,
+		format,
+		width: meta.width ?? 0,
+		height: meta.height ?? 0,
+		isSvg: format === "svg",
+	};
+}
+
+function toLevel(data: Buffer, info: sharp.OutputInfo): SourceLevel {
+	const { width, height, channels } = info;
+	return {
+		image: sharp(data, { raw: { width, height, channels } }),
+		width,
+		height,
+	};
+}
+
+/**
+ * Decodes a raster source once; later calls share the pixels
+ * @param source - Raster source image
+ * @returns Full-size level
+ */
+function decodeSource(source: SourceImage): Promise<SourceLevel> {
+	source.decoded ??= sharp(source.data ?? source.path)
+		.raw({ depth: "uchar" })
+		.toBuffer({ resolveWithObject: true })
+		.then(({ data, info }) => toLevel(data, info));
+	return source.decoded;
+}
+
+/**
+ * Halves the decoded source repeatedly, so every size is resized from a
+ * level less than twice its size instead of in one large step
+ * @param source - Raster source image
+ * @param kernel - Resampling kernel
+ * @returns Levels from the full size down, largest first
+ */
+function sourceLevels(
+	source: SourceImage,
+	kernel: ResizeKernel,
+): Promise<SourceLevel[]> {
+	source.levels ??= new Map();
+	let levels = source.levels.get(kernel);
+	if (!levels) {
+		levels = (async () => {
+			const result = [await decodeSource(source)];
+			for (;;) {
+				const last = result[result.length - 1];
+				const width = Math.round(last.width / 2);
+				const height = Math.round(last.height / 2);
+				if (Math.min(width, height) < MIN_LEVEL_SIZE) return result;
+				const { data, info } = await last.image
+					.clone()
+					.resize(width, height, { kernel, fit: "fill" })
+					.raw()
+					.toBuffer({ resolveWithObject: true });
+				result.push(toLevel(data, info));
+			}
+		})();
+		source.levels.set(kernel, levels);
+	}
+	return levels;
+}
+
+/**
+ * Finds the content of the source inside transparent or uniform-colour
+ * borders (the colour of the top-left pixel)
+ * @param source - Source image metadata
+ * @returns Content box, or undefined when there is nothing to trim
+ */
+export async function measureTrimBox(
+	source: SourceImage,
+): Promise<SourceBox | undefined> {
+	const longest = Math.max(source.width, source.height);
+	const scale = source.isSvg && longest > 0 ? TRIM_SAMPLE_SIZE / longest : 1;
+	const image = source.isSvg
+		? sharp(source.path, { density: SVG_BASE_DENSITY * scale })
+		: (await decodeSource(source)).image.clone();
+	// A blank image has no content to keep
+	const result = await image
+		.trim()
+		.toBuffer({ resolveWithObject: true })
+		.catch(() => null);
+	const info = result?.info;
+	if (!info || info.trimOffsetLeft === undefined) return undefined;
+	const box = {
+		left: -info.trimOffsetLeft / scale,
+		top: -(info.trimOffsetTop ?? 0) / scale,
+		width: info.width / scale,
+		height: info.height / scale,
+	};
+	const unchanged =
+		box.left === 0 &&
+		box.top === 0 &&
+		Math.round(box.width) === source.width &&
+		Math.round(box.height) === source.height;
+	return unchanged ? undefined : box;
+}
+
+/**
+ * Scales a box to a rendering of the source, clamped to its bounds
+ * @param box - Box in source pixels
+ * @param scale - Rendered size over source size
+ * @param bounds - Size of the rendering
+ * @returns Integer region for `extract`
+ */
+function scaleBox(
+	box: SourceBox,
+	scale: number,
+	bounds: { width: number; height: number },
+) {
+	const maxWidth = Math.max(1, Math.floor(bounds.width));
+	const maxHeight = Math.max(1, Math.floor(bounds.height));
+	const left = Math.min(Math.floor(box.left * scale), maxWidth - 1);
+	const top = Math.min(Math.floor(box.top * scale), maxHeight - 1);
+	return {
+		left,
+		top,
+		width: Math.max(
+			1,
+			Math.min(Math.round(box.width * scale), maxWidth - left),
+		),
+		height: Math.max(
+			1,
+			Math.min(Math.round(box.height * scale), maxHeight - top),
+		),
+	};
+}
+
+/**
+ * Creates a sharp pipeline that renders the source at the given size.
+ * SVG sources are rasterized at a density matching the target so every
+ * size is drawn from the vectors instead of upscaled from one bitmap.
+ * Raster sources are decoded once and cloned from the smallest halving
+ * that still covers the target.
+ * @param source - Source image metadata
+ * @param width - Target width
+ * @param height - Target height, defaults to width
+ * @param render - Resize options, trimming, kernel and sharpening
+ * @returns Resizing sharp pipeline
+ */
+export async function renderSource(
+	source: SourceImage,
+	width: number,
+	height = width,
+	render: RenderOptions = {},
+): Promise<sharp.Sharp> {
+	const { kernel = "lanczos3" } = render;
+	const box = render.trim ? source.trimBox : undefined;
+	const region = box ?? source;
+	let image: sharp.Sharp;
+	if (source.isSvg && source.width > 0 && source.height > 0) {
+		// Rasterize so the kept region, not the whole canvas, fills the target
+		const scale = Math.max(width / region.width, height / region.height);
+		const density = Math.max(1, SVG_BASE_DENSITY * scale);
+		image = sharp(source.path, { density });
+		if (box) {
+			const rendered = density / SVG_BASE_DENSITY;
+			// Rasterizers may round the rendered size either way, so stay inside the floor
+			image.extract(
+				scaleBox(box, rendered, {
+					width: source.width * rendered,
+					height: source.height * rendered,
+				}),
+			);
+		}
+	} else {
+		const levels = await sourceLevels(source, kernel);
+		const needed = Math.max(width / region.width, height / region.height);
+		const level =
+			[...levels].reverse().find((l) => l.width / source.width >= needed) ??
+			levels[0];
+		image = level.image.clone();
+		if (box) image.extract(scaleBox(box, level.width / source.width, level));
+	}
+	image.resize(width, height, { kernel, ...render.resize });
+	if (render.sharpen && Math.max(width, height) <= render.sharpen) {
+		image.sharpen({ sigma: SHARPEN_SIGMA });
+	}
+	return image;
+}
+
+/**
+ * Renders a small PNG of the source, e.g. to sample its colors
+ * @param source - Source image metadata
+ * @param size - Longest side of the sample
+ * @returns PNG buffer
+ */
+export async function sampleSource(
+	source: SourceImage,
+	size: number,
+): Promise<Buffer> {
+	const image = await renderSource(source, size, size, {
+		resize: { fit: "inside" },
+	});
+	return image.png().toBuffer();
+}
+
+/**
+ * Picks the best source for an output size: an explicit mapping first,
+ * then the smallest source that covers the size without upscaling (SVG
+ * covers every size), falling back to the largest source with a warning.
+ * @param ctx - Generation context
+ * @param width - Target width
+ * @param height - Target height, defaults to width
+ * @returns Source to render the size from
+ */
+export function selectSource(
+	ctx: GenerationContext,
+	width: number,
+	height = width,
+): SourceImage {
+	const { options } = ctx;
+	const mapped = width === height ? options.sourceMap.get(width) : undefined;
+	const candidates = mapped
+		? [mapped]
+		: [options.source, ...options.extraSources];
+	const extent = (s: SourceImage) =>
+		s.isSvg ? Number.POSITIVE_INFINITY : Math.min(s.width, s.height);
+	const needed = Math.max(width, height);
+
+	const sorted = [...candidates].sort((a, b) => extent(a) - extent(b));
+	const covering = sorted.find((s) => extent(s) >= needed);
+	if (covering) return covering;
+
+	const largest = sorted[sorted.length - 1];
+	warn(
+		ctx,
+		`${path.basename(largest.path)} (${largest.width}x${largest.height}) is upscaled to ${width}x${height}`,
+	);
+	return largest;
+}
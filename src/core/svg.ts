@@ -0,0 +1,71 @@
+import path from "path";
+import sharp from "sharp";
+import {
+	addSvgDarkMode,
+	combineSvgColorSchemes,
+	optimizeSvg,
+	readFile,
+} from "../utils";
+import {
+	type GenerationContext,
+	prepareWrite,
+	warn,
+	writeFileSafe,
+} from "./context";
+import type { SourceImage } from "./source";
+
+/** File name of the scalable favicon */
+export const SVG_ICON_NAME = "favicon.svg";
+
+/** Longest side a raster dark source is embedded at */
+const EMBEDDED_RASTER_SIZE = 256;
+
+/**
+ * Loads the dark-mode source as SVG text, wrapping raster sources in an
+ * <image> element
+ * @param source - Dark-mode source
+ * @returns SVG source text
+ */
+async function darkSvg(source: SourceImage): Promise<string> {
+	if (source.isSvg) {
+		return optimizeSvg(await readFile(source.path, "utf8"));
+	}
+	const { data, info } = await sharp(source.data ?? source.path)
+		.resize(EMBEDDED_RASTER_SIZE, EMBEDDED_RASTER_SIZE, {
+			fit: "inside",
+			withoutEnlargement: true,
+		})
+		.png()
+		.toBuffer({ resolveWithObject: true });
+	return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${info.width} ${info.height}"><image width="${info.width}" height="${info.height}" href="data:image/png;base64,${data.toString("base64")}"/></svg>`;
+}
+
+/**
+ * Writes an optimised copy of the SVG source as favicon.svg, switching to
+ * the dark-mode artwork under `prefers-color-scheme: dark` when there is one
+ * @param ctx - Generation context
+ * @returns True if the icon was written (or would be, in dry-run mode) or
+ * is already up to date
+ */
+export async function generateSvgIcon(
+	ctx: GenerationContext,
+): Promise<boolean> {
+	const { options, logger } = ctx;
+	const svgPath = path.join(options.output, SVG_ICON_NAME);
+	const state = await prepareWrite(ctx, svgPath);
+	if (state !== "write") return state === "up-to-date";
+	logger.info(`⏳ Optimizing ${SVG_ICON_NAME}...`);
+	let svg = optimizeSvg(await readFile(options.input, "utf8"));
+	const darkMode = options.svgDark ?? options.dark;
+	if (options.darkSource) {
+		if (options.svgDark) {
+			warn(ctx, "svgDark is ignored because inputDark is set");
+		}
+		svg = combineSvgColorSchemes(svg, await darkSvg(options.darkSource));
+	} else if (darkMode) {
+		svg = addSvgDarkMode(svg, darkMode);
+	}
+	await writeFileSafe(ctx, svgPath, svg);
+	logger.success(`✔ Generated ${SVG_ICON_NAME}`);
+	return true;
+}
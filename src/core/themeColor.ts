@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import type { DetectedColors } from "../types";
+import { stat } from "../utils";
+import { type WriteContext, warn } from "./context";
+import {
+	contrastRatio,
+	extractPalette,
+	MIN_GRAPHIC_CONTRAST,
+	parseColor,
+} from "./palette";
+
+/** Sources whose detected colors are kept, least recently used dropped first */
+const MAX_CACHED_SOURCES = 32;
+
+/** Detected colors per source, then per palette size, in order of last use */
+const colorCache = new Map<string, Map<number, DetectedColors>>();
+
+/** Background candidates, in order of preference */
+const BACKGROUNDS: Array<[string, [number, number, number]]> = [
+	["#ffffff", [255, 255, 255]],
+	["#000000", [0, 0, 0]],
+];
+
+/**
+ * Picks theme and background colors from the source image's dominant
+ * colors: the theme color is the most common color of the logo, and the
+ * background is white unless black contrasts better and white falls
+ * below the WCAG 3:1 minimum for graphics
+ * @param input - Path to the source image, or its encoded data
+ * @param count - Number of palette colors to return
+ * @returns Chosen colors, their contrast and the palette
+ */
+export async function detectColors(
+	input: string | Buffer,
+	count = 5,
+): Promise<DetectedColors> {
+	// File paths are keyed by modification time so edited sources are re-read,
+	// and image data by content so fresh renders of the same pixels hit the cache
+	const key =
+		typeof input === "string"
+			? `${input}:${(await stat(input)).mtimeMs}`
+			: createHash("sha1").update(input).digest("hex");
+	const bySize = colorCache.get(key) ?? new Map<number, DetectedColors>();
+	// Re-inserted so the Map's order tracks use; the oldest entry goes first
+	colorCache.delete(key);
+	colorCache.set(key, bySize);
+	if (colorCache.size > MAX_CACHED_SOURCES) {
+		colorCache.delete(colorCache.keys().next().value as string);
+	}
+	const cached = bySize.get(count);
+	if (cached) return cached;
+
+	const palette = await extractPalette(input, count);
+	const dominant = palette[0]?.rgb ?? [255, 255, 255];
+	const [first, ...rest] = BACKGROUNDS.map(([hex, rgb]) => ({
+		hex,
+		contrast: contrastRatio(rgb, dominant),
+	}));
+	const background =
+		first.contrast >= MIN_GRAPHIC_CONTRAST
+			? first
+			: [first, ...rest].reduce((a, b) => (b.contrast > a.contrast ? b : a));
+
+	const colors: DetectedColors = {
+		themeColor: palette[0]?.hex ?? "#ffffff",
+		backgroundColor: background.hex,
+		contrast: background.contrast,
+		palette,
+	};
+	bySize.set(count, colors);
+	return colors;
+}
+
+/**
+ * Detects a theme color: the dominant color of the source image,
+ * ignoring transparent, near-white and near-black pixels
+ * @param input - Path to the source image, or its encoded data
+ * @returns Hex color string such as "#336699"
+ */
+export async function detectThemeColor(
+	input: string | Buffer,
+): Promise<string> {
+	return (await detectColors(input)).themeColor;
+}
+
+/**
+ * Warns about configured background colors below the WCAG 3:1 contrast
+ * minimum against the logo's dominant color
+ * @param ctx - Context receiving the warnings
+ * @param colors - Colors detected from the source
+ * @param backgrounds - Option names with their values; unset values are skipped
+ */
+export function checkBackgroundContrast(
+	ctx: WriteContext,
+	colors: DetectedColors,
+	backgrounds: Array<[string, string | false | undefined]>,
+) {
+	const dominant = colors.palette[0];
+	if (!dominant) return;
+	for (const [name, value] of backgrounds) {
+		const rgb = value ? parseColor(value) : null;
+		if (!rgb) continue;
+		const ratio = contrastRatio(rgb, dominant.rgb);
+		if (ratio < MIN_GRAPHIC_CONTRAST) {
+			warn(
+				ctx,
+				`${name} ${value} has a contrast of ${ratio.toFixed(1)}:1 against the logo (${dominant.hex}); WCAG asks for at least ${MIN_GRAPHIC_CONTRAST}:1`,
+			);
+		}
+	}
+}
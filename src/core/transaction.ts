@@ -0,0 +1,189 @@
+import path from "path";
+import type { Logger } from "../types";
+import { backupFile, copyFile, mkdtemp, readdir, rename, rm } from "../utils";
+
+/** Prefix of the staging directories created inside the output directory */
+const STAGING_PREFIX = ".favigen-staging-";
+
+/**
+ * Files of a run staged in a temporary directory until they are moved into
+ * place together
+ */
+export interface Transaction {
+	/** Temporary directory the run writes to */
+	dir: string;
+	/** Staged file per output path, in write order */
+	files: Map<string, string>;
+	/** Copy each replaced file to `<file>.backup` */
+	backup: boolean;
+}
+
+/**
+ * Checks whether a process is still running
+ * @param pid - Process id
+ * @returns True unless the process is known to be gone
+ */
+function isRunning(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		return (error as NodeJS.ErrnoException).code !== "ESRCH";
+	}
+}
+
+/**
+ * Removes staging directories left behind by runs that were killed
+ * @param output - Output directory
+ */
+async function removeStaleStaging(output: string) {
+	const entries = await readdir(output).catch(() => []);
+	for (const entry of entries) {
+		if (!entry.startsWith(STAGING_PREFIX)) continue;
+		const pid = Number.parseInt(entry.slice(STAGING_PREFIX.length), 10);
+		if (Number.isInteger(pid) && isRunning(pid)) continue;
+		await rm(path.join(output, entry), { recursive: true, force: true });
+	}
+}
+
+/**
+ * Starts staging the files of a run. The directory lives inside the output
+ * directory, so moving files into place is a rename on the same filesystem.
+ * @param output - Output directory, which must exist
+ * @param backup - Keep replaced files as `<file>.backup`
+ * @returns Empty transaction
+ */
+export async function beginTransaction(
+	output: string,
+	backup: boolean,
+): Promise<Transaction> {
+	await removeStaleStaging(output);
+	const dir = await mkdtemp(
+		path.join(output, `${STAGING_PREFIX}${process.pid}-`),
+	);
+	return { dir, files: new Map(), backup };
+}
+
+/**
+ * Maps an output path to the path it is written to
+ * @param transaction - Open transaction, if any
+ * @param filePath - Final output path
+ * @returns Staged path, or the output path itself without a transaction
+ */
+export function stageFile(
+	transaction: Transaction | undefined,
+	filePath: string,
+): string {
+	if (!transaction) return filePath;
+	let staged = transaction.files.get(filePath);
+	if (!staged) {
+		staged = path.join(
+			transaction.dir,
+			`${transaction.files.size}-${path.basename(filePath)}`,
+		);
+		transaction.files.set(filePath, staged);
+	}
+	return staged;
+}
+
+/**
+ * Moves a file over another one, atomically when both are on the same
+ * filesystem
+ * @param from - File to move
+ * @param to - Destination, replaced if it exists
+ */
+async function moveFile(from: string, to: string) {
+	try {
+		await rename(from, to);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+		// Across filesystems, copy next to the destination and rename that
+		const temp = `${to}.favigen-tmp`;
+		await copyFile(from, temp);
+		await rename(temp, to);
+	}
+}
+
+/**
+ * Copies a file aside so it can be restored later
+ * @param file - File to copy
+ * @param snapshot - Path of the copy
+ * @returns The snapshot path, or null if the file does not exist
+ */
+async function snapshotFile(
+	file: string,
+	snapshot: string,
+): Promise<string | null> {
+	return copyFile(file, snapshot).then(
+		() => snapshot,
+		(error: NodeJS.ErrnoException) => {
+			if (error.code === "ENOENT") return null;
+			throw error;
+		},
+	);
+}
+
+/**
+ * Puts back the files a failed commit touched
+ * @param touched - Path -> snapshot of its previous content, null if it
+ * did not exist before the commit
+ */
+async function restoreFiles(touched: Map<string, string | null>) {
+	for (const [file, snapshot] of touched) {
+		if (snapshot) await moveFile(snapshot, file);
+		else await rm(file, { force: true });
+	}
+}
+
+/**
+ * Moves every staged file into place. Each replaced file, and any
+ * `.backup` about to be overwritten, is snapshotted first, so a failure
+ * part-way restores the previous set of files and backups.
+ * @param transaction - Transaction to commit
+ * @param logger - Logger for progress
+ * @throws Error from the failed move, after rolling back
+ */
+export async function commitTransaction(
+	transaction: Transaction,
+	logger: Logger,
+) {
+	// Output path -> snapshot of the file it replaced, null if it is new
+	const replaced = new Map<string, string | null>();
+	// Same for the `.backup` files written by this commit
+	const backups = new Map<string, string | null>();
+	try {
+		for (const [target, staged] of transaction.files) {
+			const snapshot = await snapshotFile(target, `${staged}.previous`);
+			replaced.set(target, snapshot);
+			if (snapshot && transaction.backup) {
+				const backup = `${target}.backup`;
+				backups.set(
+					backup,
+					await snapshotFile(backup, `${staged}.previous-backup`),
+				);
+				await backupFile(target);
+			}
+			await moveFile(staged, target);
+		}
+	} catch (error) {
+		await restoreFiles(replaced);
+		await restoreFiles(backups);
+		logger.warn(`↩ Rolled back ${replaced.size} file(s) after a failed write`);
+		throw error;
+	} finally {
+		await rm(transaction.dir, { recursive: true, force: true });
+	}
+	if (transaction.files.size > 0) {
+		logger.info(
+			`🔒 Moved ${transaction.files.size} staged file(s) into place${transaction.backup ? " (previous versions kept as .backup)" : ""}`,
+		);
+	}
+}
+
+/**
+ * Discards the staged files, leaving the output untouched
+ * @param transaction - Transaction to abandon
+ */
+export async function abortTransaction(transaction: Transaction) {
+	await rm(transaction.dir, { recursive: true, force: true });
+}
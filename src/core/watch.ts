@@ -0,0 +1,316 @@
+import { type FSWatcher, watch } from "fs";
+import path from "path";
+import sharp from "sharp";
+import type {
+	FavigenOptions,
+	FavigenWatcher,
+	GenerateResult,
+	WatchOptions,
+} from "../types";
+import { silentLogger } from "./context";
+import { type GenerationStep, runGeneration } from "./generate";
+
+/** Default quiet period before a rebuild, in milliseconds */
+const DEFAULT_DEBOUNCE = 200;
+
+/** libvips cache limits to restore once the last watcher closes */
+let savedCache: sharp.CacheOptions | undefined;
+
+/** Watchers currently running with the libvips cache turned off */
+let uncachedWatchers = 0;
+
+/** Steps that read the source image */
+const SOURCE_STEPS: GenerationStep[] = [
+	"svg",
+	"png",
+	"ico",
+	"apple",
+	"maskable",
+	"monochrome",
+	"browserconfig",
+	"cursor",
+	"dark",
+];
+
+/** Steps that resize the source into raster images */
+const RESIZE_STEPS: GenerationStep[] = [
+	"png",
+	"ico",
+	"dark",
+	"apple",
+	"maskable",
+	"monochrome",
+	"browserconfig",
+	"cursor",
+];
+
+/** Steps that use the theme or background color, rerun when they are detected from the source */
+const COLOR_STEPS: GenerationStep[] = [
+	"apple",
+	"maskable",
+	"manifest",
+	"browserconfig",
+	"html",
+];
+
+/**
+ * Steps affected by each option. A change to an option missing here
+ * reruns every step.
+ */
+const OPTION_STEPS: Partial<Record<keyof FavigenOptions, GenerationStep[]>> = {
+	yes: [],
+	logger: [],
+	prompt: [],
+	backup: [],
+	icoSizes: ["ico"],
+	kernel: RESIZE_STEPS,
+	sharpen: RESIZE_STEPS,
+	pngPalette: RESIZE_STEPS,
+	pngColors: RESIZE_STEPS,
+	pngDither: RESIZE_STEPS,
+	pngCompression: RESIZE_STEPS,
+	stripMetadata: RESIZE_STEPS,
+	sizeBudget: [],
+	formats: ["png", "manifest"],
+	webpQuality: ["png"],
+	avifQuality: ["png"],
+	icoFormat: ["ico"],
+	manifestFileName: ["manifest", "html"],
+	manifestMerge: ["manifest"],
+	manifestFields: ["manifest"],
+	maskable: ["maskable", "manifest"],
+	maskableBackground: ["maskable"],
+	maskablePadding: ["maskable"],
+	maskablePreview: ["maskable"],
+	monochrome: ["monochrome", "manifest"],
+	apple: ["apple", "html"],
+	appleBackground: ["apple"],
+	applePadding: ["apple"],
+	appleStartupImages: ["apple", "html"],
+	browserconfig: ["browserconfig", "html"],
+	tilePadding: ["browserconfig"],
+	tileImage: ["browserconfig", "html"],
+	tileNotification: ["browserconfig"],
+	tileBadge: ["browserconfig"],
+	appName: ["manifest", "html"],
+	backgroundColor: ["manifest", "maskable", "apple"],
+	svgDark: ["svg"],
+	dark: ["svg", "dark", "html"],
+	themeColorDark: ["html"],
+	preprocess: [
+		"png",
+		"ico",
+		"dark",
+		"apple",
+		"maskable",
+		"monochrome",
+		"browserconfig",
+		"html",
+	],
+	cursorHotspot: ["cursor"],
+	htmlFile: ["html"],
+	inject: ["html"],
+	publicPath: ["html"],
+};
+
+/**
+ * Turns off the libvips cache, which keeps decoded files by name and would
+ * hide edits, for as long as a watcher runs
+ * @returns Releases the hold; the previous limits come back with the last one
+ */
+function holdSharpCacheOff(): () => void {
+	if (uncachedWatchers++ === 0) {
+		const { memory, files, items } = sharp.cache();
+		savedCache = { memory: memory.max, files: files.max, items: items.max };
+		sharp.cache(false);
+	}
+	let released = false;
+	return () => {
+		if (released) return;
+		released = true;
+		if (--uncachedWatchers === 0) sharp.cache(savedCache ?? true);
+	};
+}
+
+/**
+ * Lists the source files an options object reads
+ * @param options - Generation options
+ * @returns Absolute paths of the input, small and dark inputs and mapped sources
+ */
+function sourceFiles(options: FavigenOptions): string[] {
+	return [
+		options.input,
+		options.inputSmall,
+		options.inputDark,
+		...Object.values(options.sourceMap ?? {}),
+	]
+		.filter((file): file is string => Boolean(file))
+		.map((file) => path.resolve(file));
+}
+
+/**
+ * Works out which steps a change of options affects
+ * @param before - Options of the previous build
+ * @param after - Reloaded options
+ * @returns Steps to rerun, or undefined when everything must be rebuilt
+ */
+function changedSteps(
+	before: FavigenOptions,
+	after: FavigenOptions,
+): Set<GenerationStep> | undefined {
+	const steps = new Set<GenerationStep>();
+	const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+	for (const key of keys as Set<keyof FavigenOptions>) {
+		if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+		const affected = OPTION_STEPS[key];
+		if (!affected) return undefined;
+		for (const step of affected) steps.add(step);
+	}
+	return steps;
+}
+
+/**
+ * Builds once, then watches the source images and config files and
+ * regenerates the affected outputs when they change. Rapid saves are
+ * debounced, and a failed rebuild (e.g. a half-written file) is logged
+ * without stopping the watcher.
+ * @param options - Options loader, config files and watcher settings
+ * @returns The running watcher with the initial build result
+ * @throws FavigenError if the initial build fails
+ */
+export async function watchFavicons(
+	options: WatchOptions,
+): Promise<FavigenWatcher> {
+	const logger = options.logger ?? silentLogger;
+	const debounce = options.debounce ?? DEFAULT_DEBOUNCE;
+	const configFiles = (options.configFiles ?? []).map((file) =>
+		path.resolve(file),
+	);
+	const releaseCache = holdSharpCacheOff();
+
+	let current: FavigenOptions;
+	let initial: GenerateResult;
+	try {
+		current = await options.load();
+		initial = await runGeneration(current);
+	} catch (err) {
+		releaseCache();
+		throw err;
+	}
+	// Rebuilds overwrite their own files without asking, but never one the
+	// user declined to overwrite
+	const declined = new Set(initial.skipped);
+
+	const watchers = new Map<string, FSWatcher>();
+	const changed = new Set<"source" | "config">();
+	const changedNames = new Set<string>();
+	let timer: NodeJS.Timeout | undefined;
+	let running = false;
+	let closed = false;
+
+	const watchedFiles = () => new Set([...sourceFiles(current), ...configFiles]);
+
+	const onEvent = (dir: string, fileName: string | null) => {
+		if (!fileName) return;
+		const file = path.join(dir, fileName.toString());
+		if (configFiles.includes(file)) {
+			changed.add("config");
+		} else if (sourceFiles(current).includes(file)) {
+			changed.add("source");
+		} else {
+			return;
+		}
+		changedNames.add(path.basename(file));
+		clearTimeout(timer);
+		timer = setTimeout(rebuild, debounce);
+	};
+
+	// Directories are watched rather than files, so editors that save by
+	// replacing the file keep triggering events
+	const syncWatchers = () => {
+		const dirs = new Set([...watchedFiles()].map((file) => path.dirname(file)));
+		for (const [dir, watcher] of watchers) {
+			if (!dirs.has(dir)) {
+				watcher.close();
+				watchers.delete(dir);
+			}
+		}
+		for (const dir of dirs) {
+			if (!watchers.has(dir)) {
+				watchers.set(
+					dir,
+					watch(dir, (_event, fileName) => onEvent(dir, fileName)),
+				);
+			}
+		}
+	};
+
+	const rebuild = async () => {
+		if (closed) return;
+		if (running) {
+			// Picked up again once the running build finishes
+			timer = setTimeout(rebuild, debounce);
+			return;
+		}
+		running = true;
+		const reasons = [...changed];
+		const names = [...changedNames].join(", ");
+		changed.clear();
+		changedNames.clear();
+		const started = Date.now();
+
+		try {
+			let steps: Set<GenerationStep> | undefined = new Set();
+			if (reasons.includes("config")) {
+				const next = await options.load();
+				steps = changedSteps(current, next);
+				current = next;
+				syncWatchers();
+			}
+			if (steps && reasons.includes("source")) {
+				for (const step of SOURCE_STEPS) steps.add(step);
+				if (
+					!current.themeColor ||
+					!current.backgroundColor ||
+					!current.themeColorDark
+				) {
+					for (const step of COLOR_STEPS) steps.add(step);
+				}
+			}
+
+			if (steps && steps.size === 0) {
+				logger.info(`🔄 ${names} changed, no outputs affected`);
+			} else {
+				logger.info(`🔄 ${names} changed, regenerating...`);
+				const result = await runGeneration(
+					{ ...current, yes: true },
+					{ steps, declined },
+				);
+				for (const file of result.skipped) declined.add(file);
+				logger.success(
+					`✔ Regenerated ${result.files.length} file(s) in ${Date.now() - started}ms`,
+				);
+				options.onRebuild?.(result);
+			}
+		} catch (err) {
+			logger.warn(
+				`⚠ Rebuild failed, waiting for the next change: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		} finally {
+			running = false;
+		}
+	};
+
+	syncWatchers();
+
+	return {
+		initial,
+		close() {
+			closed = true;
+			clearTimeout(timer);
+			for (const watcher of watchers.values()) watcher.close();
+			watchers.clear();
+			releaseCache();
+		},
+	};
+}
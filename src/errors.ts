@@ -0,0 +1,39 @@
+/**
+ * Error types thrown by the favigen programmatic API
+ */
+
+/**
+ * Machine-readable error codes for favigen failures
+ */
+export type FavigenErrorCode =
+	| "INPUT_NOT_FOUND"
+	| "UNSUPPORTED_FORMAT"
+	| "INVALID_OPTION"
+	| "INVALID_CONFIG"
+	| "OUTPUT_NOT_DIRECTORY"
+	| "CANCELLED"
+	| "BUDGET_EXCEEDED"
+	| "GENERATION_FAILED";
+
+/**
+ * Error thrown by `generateFavicons` and the other library entry points.
+ * Callers can branch on `code` instead of parsing the message.
+ */
+export class FavigenError extends Error {
+	readonly code: FavigenErrorCode;
+
+	constructor(code: FavigenErrorCode, message: string) {
+		super(message);
+		this.name = "FavigenError";
+		this.code = code;
+	}
+}
+
+/**
+ * Type guard for errors raised by favigen
+ * @param error - Value to check
+ * @returns True if the value is a FavigenError
+ */
+export function isFavigenError(error: unknown): error is FavigenError {
+	return error instanceof FavigenError;
+}
@@ -1,64 +1,279 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import path from "path";
-import readline from "readline";
-import sharp from "sharp";
 import { version } from "../package.json";
+import { printBatchSummary } from "./cli/batch";
+import { type CliOptions, mergeCliOptions } from "./cli/config";
+import { registerExtract } from "./cli/commands/extract";
+import { registerInspect } from "./cli/commands/inspect";
+import { registerListPresets } from "./cli/commands/listPresets";
+import { registerPalette } from "./cli/commands/palette";
+import { consoleLogger } from "./cli/logger";
+import { confirmAction } from "./cli/prompt";
 import {
-	colors,
-	encodeIco,
-	ensureDir,
-	stat as fsStat,
-	pathExists,
-	writeFile,
-	writeJson,
-} from "./utils";
+	type BatchJob,
+	expandJobs,
+	type FavigenConfig,
+	FavigenError,
+	type FavigenOptions,
+	generateBatch,
+	generateFavicons,
+	isFavigenError,
+	loadConfig,
+	parseRatio,
+	watchFavicons,
+} from "./index";
+import { colors } from "./utils";
 
 const program = new Command();
 
 program
 	.name("favigen")
+	.enablePositionalOptions()
 	.description(
 		"🎨 Generate favicon.ico, assorted PNG icons, webmanifest, and browserconfig\n" +
 			"   Supports output to any directory on your filesystem",
 	)
 	.version(version, "-v, --version", "Output the current version")
-	.requiredOption(
+	.option(
+		"-c, --config <file>",
+		"Config file (default: favigen.config.{ts,js,json} or package.json)",
+	)
+	.option(
 		"-i, --input <file>",
-		"Source image file (PNG/JPEG/WebP recommended)\n" +
+		"Source image file (SVG/PNG/JPEG/WebP recommended, ICO accepted)\n" +
 			"Supports absolute and relative paths",
 	)
+	.option(
+		"--input-small <file>",
+		"Hand-tuned artwork for small sizes (e.g. 16/32px)\n" +
+			"Each size uses the smallest source that needs no upscaling",
+	)
+	.option(
+		"--input-dark <file>",
+		"Dark-mode artwork, linked under prefers-color-scheme: dark",
+	)
+	.option(
+		"--dark <mode>",
+		'Derive dark-mode icons: "invert", or a color to recolor a monochrome logo',
+	)
+	.option(
+		"--input-map <list>",
+		"Explicit source per size, e.g. 16=icon16.png,32=icon32.png",
+	)
 	.option(
 		"-o, --output <dir>",
 		"Output directory (supports any filesystem path)\n" +
 			"Examples: ./icons, /home/user/assets, C:\\assets",
 		"icons",
 	)
+	.option(
+		"-p, --platforms <list>",
+		"Platform targets: web, apple, android, windows, pwa\n" +
+			"See `favigen list-presets` for what each produces",
+	)
 	.option(
 		"-s, --sizes <list>",
-		"Comma-separated icon sizes for PNG generation",
-		"16,32,48,64,128,256,180,150,70",
+		"Comma-separated icon sizes for PNG generation\n" +
+			"Replaces platform sizes (default: 16,32,48,64,128,256,180,150,70)",
+	)
+	.option(
+		"--kernel <name>",
+		"Resampling kernel: lanczos3 (default), lanczos2, mitchell, cubic\n" +
+			"or nearest (keeps pixel art crisp)",
+	)
+	.option(
+		"--sharpen [maxSize]",
+		"Unsharp-mask icons up to this size after resizing (default: 32)",
+		(value) => Number.parseInt(value, 10),
+	)
+	.option(
+		"--png-palette",
+		"Quantize PNG icons to an indexed palette (smaller files, fewer colors)",
+	)
+	.option(
+		"--png-colors <n>",
+		"Palette size for quantized PNGs, 2-256 (implies --png-palette)",
+		(value) => Number.parseInt(value, 10),
+	)
+	.option(
+		"--png-dither <level>",
+		"Dithering for quantized PNGs, 0-1 (default: 1, implies --png-palette)",
+		(value) => Number.parseFloat(value),
+	)
+	.option(
+		"--png-compression <level>",
+		"zlib compression level for PNGs, 0-9 (default: 9)",
+		(value) => Number.parseInt(value, 10),
+	)
+	.option(
+		"--no-strip-metadata",
+		"Keep the ancillary chunks of rendered PNGs (e.g. pHYs resolution)\n" +
+			"Source ICC profiles and text are not carried over: pixels are rendered in sRGB",
+	)
+	.option(
+		"--size-budget <size>",
+		"Fail when the output directory exceeds this size, e.g. 150KB or 1.5MB",
+	)
+	.option(
+		"--formats <list>",
+		"Extra formats written next to each PNG icon: webp, avif\n" +
+			"ICO, Apple icons and Windows tiles stay PNG",
+	)
+	.option("--webp-quality <n>", "WebP quality, 1-100 (default: 80)", (value) =>
+		Number.parseInt(value, 10),
+	)
+	.option("--avif-quality <n>", "AVIF quality, 1-100 (default: 50)", (value) =>
+		Number.parseInt(value, 10),
 	)
 	.option(
 		"-y, --yes",
 		"Auto-confirm all prompts (overwrite files, external paths)",
 	)
 	.option("--dry-run", "Preview operations without writing files", false)
+	.option("--force", "Regenerate every file, even those that are up to date")
+	.option(
+		"--backup",
+		"Keep each replaced file as <name>.backup next to the new one",
+	)
+	.option(
+		"--concurrency <n>",
+		"Batch jobs (config `jobs` list) run at once (default: CPU count, max 4)",
+		(value) => Number.parseInt(value, 10),
+	)
+	.option(
+		"-w, --watch",
+		"Keep running and regenerate when the input or config file changes",
+	)
+	.option(
+		"--ico-sizes <list>",
+		"Comma-separated sizes embedded in favicon.ico (default: 16,32,48, max 256)\n" +
+			"Independent of --sizes",
+	)
+	.option(
+		"--ico-format <format>",
+		"favicon.ico entry format: png, bmp or hybrid\n" +
+			"Hybrid stores 48px and below as BMP for legacy Windows (default: hybrid)",
+	)
+	.option(
+		"--cursor",
+		"Generate cursor.cur and cursor.css instead of favicons\n" +
+			"Sizes default to 32,48,64 (override with --sizes)",
+	)
+	.option(
+		"--hotspot <x,y>",
+		"Cursor click point in source image pixels (default: 0,0)",
+	)
 	.option("--manifest", "Generate site.webmanifest for PWA support", false)
+	.option("--manifest-name <file>", "Manifest file name (e.g. manifest.json)")
+	.option(
+		"--manifest-merge",
+		"Only update icons and colors of an existing manifest",
+	)
+	.option("--start-url <url>", "Manifest start_url")
+	.option(
+		"--display <mode>",
+		"Manifest display mode (fullscreen, standalone, minimal-ui, browser)",
+	)
+	.option("--maskable", "Generate maskable manifest icons (192/512)")
+	.option(
+		"--maskable-background <color>",
+		"Background behind maskable icons (defaults to the background color)",
+	)
+	.option(
+		"--maskable-padding <ratio>",
+		"Padding per side for maskable icons (0-0.5)\n" +
+			"Defaults to fitting the logo into the 80% safe zone",
+		Number.parseFloat,
+	)
+	.option(
+		"--maskable-preview",
+		"Write maskable-preview.png with circle/squircle masks applied",
+	)
+	.option(
+		"--monochrome",
+		"Generate monochrome manifest icons from the alpha channel",
+	)
+	.option("--apple", "Generate apple-touch-icon.png on an opaque background")
+	.option(
+		"--apple-background <color>",
+		"Background for Apple assets (defaults to the background color)",
+	)
+	.option(
+		"--apple-padding <ratio>",
+		"Padding per side for the Apple touch icon (0-0.5)",
+		Number.parseFloat,
+	)
+	.option(
+		"--apple-startup-images",
+		"Generate iOS/iPadOS splash screens (apple-touch-startup-image)",
+	)
 	.option(
 		"--browserconfig",
 		"Generate browserconfig.xml for Windows tiles",
 		false,
 	)
+	.option(
+		"--tile-padding <ratio>",
+		"Padding around the logo on Windows tiles (0-0.5 of tile height)\n" +
+			"Defaults follow Microsoft's per-tile recommendations",
+		Number.parseFloat,
+	)
+	.option("--tile-image", "Add a 144x144 TileImage for Windows 8")
 	.option("--app-name <name>", "Application name for manifest files", "App")
 	.option(
 		"--theme-color <color>",
 		"Theme color (hex) for manifest/browserconfig\n" +
 			"Auto-detected from image if not specified",
-	);
+	)
+	.option(
+		"--theme-color-dark <color>",
+		"Dark-mode theme color (default: dominant color of the dark icons)",
+	)
+	.option(
+		"--background-color <color>",
+		"Manifest background color\n" +
+			"Defaults to white or black, whichever contrasts more with the logo",
+	)
+	.option(
+		"--html [file]",
+		"Print the HTML <head> snippet, or write it to a file",
+	)
+	.option(
+		"--inject <file>",
+		"Insert the snippet into an existing HTML file's <head>",
+	)
+	.option(
+		"--public-path <prefix>",
+		"Prefix for hrefs in the HTML snippet (e.g. /static/icons/)",
+		"/",
+	)
+	.option(
+		"--svg-dark <mode>",
+		'Dark mode for favicon.svg (SVG input only): "invert" or a fill color',
+	)
+	.option("--trim", "Trim transparent or uniform borders around the logo")
+	.option(
+		"--padding <ratio>",
+		"Padding per side for favicons, e.g. 0.1 or 10% (0-0.5)",
+		parseRatio,
+	)
+	.option(
+		"--fit <mode>",
+		"Fit a non-square logo: contain or cover (default: cover for favicons)",
+	)
+	.option(
+		"--icon-background <color>",
+		"Fill behind the logo on favicons (default: transparent)",
+	)
+	.option(
+		"--radius <ratio>",
+		"Corner radius for favicons and tiles, e.g. 0.2 or 20% (0-0.5)",
+		parseRatio,
+	)
+	.option("--circle", "Crop favicons and tiles to a circle");
 
-if (process.argv.length <= 2) {
+function printBanner() {
 	console.log(colors.cyan("🎨 Favigen - Favicon Generator"));
 	console.log(
 		colors.gray("Generate favicons for any directory on your filesystem\n"),
@@ -73,319 +288,176 @@ if (process.argv.length <= 2) {
 			"  favigen -i logo.png -o /home/user/website/icons --manifest",
 		),
 	);
-	process.exit(0);
-}
-
-program.parse(process.argv);
-
-interface Opts {
-	input: string;
-	output: string;
-	sizes: string;
-	yes: boolean;
-	dryRun: boolean;
-	manifest: boolean;
-	browserconfig: boolean;
-	appName: string;
-	themeColor?: string;
-}
-
-const options = program.opts<Opts>();
-
-async function ensureDirSafe(dir: string) {
-	if (options.dryRun) {
-		console.log(colors.yellow(`[Dry Run] Would ensure directory ${dir}`));
-	} else {
-		await ensureDir(dir);
-	}
-}
-
-async function writeFileSafe(filePath: string, data: Buffer | string) {
-	if (options.dryRun) {
-		console.log(colors.yellow(`[Dry Run] Would write file ${filePath}`));
-	} else {
-		await writeFile(filePath, data);
-	}
-}
-
-async function writeJsonSafe(filePath: string, obj: unknown) {
-	if (options.dryRun) {
-		console.log(colors.yellow(`[Dry Run] Would write JSON ${filePath}`));
-	} else {
-		await writeJson(filePath, obj, { spaces: 2 });
-	}
-}
-
-function askQuestion(query: string): Promise<string> {
-	const rl = readline.createInterface({
-		input: process.stdin,
-		output: process.stdout,
-	});
-	return new Promise((resolve) => {
-		rl.question(colors.cyan(query), (ans) => {
-			rl.close();
-			resolve(ans);
-		});
-	});
-}
-
-async function confirmOverwrite(filePath: string): Promise<boolean> {
-	if (options.yes) return true;
-	const ans = await askQuestion(`${filePath} exists. Overwrite? (y/n): `);
-	return ans.trim().toLowerCase().startsWith("y");
-}
-
-async function confirmAction(message: string): Promise<boolean> {
-	const ans = await askQuestion(`${message} (y/n): `);
-	return ans.trim().toLowerCase().startsWith("y");
-}
-
-let cachedThemeColor: string | null = null;
-async function detectThemeColor(): Promise<string> {
-	if (cachedThemeColor) return cachedThemeColor;
-	const { data } = await sharp(options.input)
-		.resize(1, 1)
-		.raw()
-		.toBuffer({ resolveWithObject: true });
-	const [r, g, b] = data;
-	cachedThemeColor = `#${[r, g, b]
-		.map((x) => x.toString(16).padStart(2, "0"))
-		.join("")}`;
-	return cachedThemeColor;
 }
 
-async function validatePathsAndInput() {
-	// Validate and resolve input path
-	const inputPath = path.resolve(options.input);
-	const statResult = await fsStat(inputPath).catch(() => null);
-	if (!statResult || !statResult.isFile()) {
-		console.error(
-			colors.red(`✖ Input file not found or not a file: ${options.input}`),
-		);
-		process.exit(1);
-	}
-
-	// Validate image format
-	const meta = await sharp(inputPath).metadata();
-	if (!meta.format || !["png", "jpeg", "jpg", "webp"].includes(meta.format)) {
-		console.error(
-			colors.red("✖ Unsupported input format. Use PNG, JPEG, or WebP."),
-		);
-		process.exit(1);
-	}
-	options.input = inputPath;
-
-	// Validate and resolve output path - now supports any valid filesystem path
-	const outputPath = path.resolve(options.output);
-
-	// Enhanced security: Check for dangerous paths
-	const normalizedOutput = path.normalize(outputPath);
-	if (
-		normalizedOutput.includes("..") &&
-		path.relative(process.cwd(), normalizedOutput).startsWith("..")
-	) {
-		// Only warn about traversal outside cwd, don't block it
-		console.log(
-			colors.yellow(
-				`⚠ Output path is outside current directory: ${normalizedOutput}`,
-			),
-		);
-		if (!options.yes) {
-			const confirmed = await confirmAction(
-				`Continue with output path outside current directory? (${normalizedOutput})`,
-			);
-			if (!confirmed) {
-				console.log(colors.gray("Operation cancelled."));
-				process.exit(0);
-			}
-		}
-	}
+registerListPresets(program);
+registerExtract(program);
+registerInspect(program);
+registerPalette(program);
 
-	// Check if output directory exists and is writable
+program.action(async () => {
+	const options = program.opts<CliOptions>();
 	try {
-		const outputDir = path.dirname(outputPath);
-		const outputDirStat = await fsStat(outputDir).catch(() => null);
-		if (outputDirStat && !outputDirStat.isDirectory()) {
-			console.error(
-				colors.red(
-					`✖ Output parent path exists but is not a directory: ${outputDir}`,
-				),
-			);
-			process.exit(1);
+		const loaded = await loadConfig({ configFile: options.config });
+		if (process.argv.length <= 2 && !loaded) {
+			printBanner();
+			process.exit(0);
 		}
-	} catch (err) {
-		// Directory doesn't exist, will be created later
-	}
-
-	options.output = outputPath;
-
-	// Display resolved paths for user confirmation
-	console.log(colors.cyan(`📁 Input:  ${colors.white(options.input)}`));
-	console.log(colors.cyan(`📁 Output: ${colors.white(options.output)}`));
-}
-
-const sizes: number[] = options.sizes
-	.split(",")
-	.map((n) => parseInt(n.trim(), 10))
-	.filter((n) => Number.isFinite(n) && n > 0);
 
-if (sizes.length === 0) {
-	console.error(colors.red("✖ No valid sizes provided."));
-	process.exit(1);
-}
-
-async function generatePngIcons(): Promise<Buffer[]> {
-	await ensureDirSafe(options.output);
-	console.log(colors.cyan(`⏳ Resizing ${sizes.length} PNG icons...`));
-
-	const buffers = await Promise.all(
-		sizes.map(async (size) => {
-			const fileName = `icon-${size}x${size}.png`;
-			const outPath = path.join(options.output, fileName);
-			if ((await pathExists(outPath)) && !(await confirmOverwrite(outPath))) {
-				console.log(colors.yellow(`⚠ Skipped ${fileName}`));
-				return null;
+		const toGenerateOptions = (config: FavigenConfig): FavigenOptions => {
+			if (!config.input) {
+				throw new FavigenError(
+					"INVALID_OPTION",
+					'No input file: pass -i <file> or set "input" in a favigen config file',
+				);
 			}
-			const buf = await sharp(options.input)
-				.resize(size, size)
-				.png()
-				.toBuffer();
-			await writeFileSafe(outPath, buf);
-			console.log(colors.green(`✔ Generated ${fileName}`));
-			return buf;
-		}),
-	);
-
-	const good = buffers.filter((b): b is Buffer => b !== null);
-	console.log(
-		colors.cyan(`✅ Completed PNG icons (${good.length}/${sizes.length})`),
-	);
-	return good;
-}
-
-async function generateIco(buffers: Buffer[]) {
-	const icoPath = path.join(options.output, "favicon.ico");
-	if ((await pathExists(icoPath)) && !(await confirmOverwrite(icoPath))) {
-		console.log(colors.yellow("⚠ Skipped favicon.ico"));
-		return;
-	}
-	console.log(colors.cyan("⏳ Generating favicon.ico..."));
-	const icoBuf = encodeIco(buffers);
-	await writeFileSafe(icoPath, icoBuf);
-	console.log(colors.green("✔ Generated favicon.ico"));
-}
-
-async function generateManifest(themeColor: string) {
-	const manifestPath = path.join(options.output, "site.webmanifest");
-	if (
-		(await pathExists(manifestPath)) &&
-		!(await confirmOverwrite(manifestPath))
-	) {
-		console.log(colors.yellow("⚠ Skipped site.webmanifest"));
-		return;
-	}
-	console.log(colors.cyan("⏳ Writing site.webmanifest..."));
-	const icons = sizes.map((sz) => ({
-		src: `icon-${sz}x${sz}.png`,
-		sizes: `${sz}x${sz}`,
-		type: "image/png",
-	}));
-	const manifest = {
-		name: options.appName,
-		short_name: options.appName,
-		icons,
-		theme_color: themeColor,
-		background_color: themeColor,
-		display: "standalone",
-	};
-	await writeJsonSafe(manifestPath, manifest);
-	console.log(colors.green("✔ Generated site.webmanifest"));
-}
-
-async function generateBrowserConfig(themeColor: string) {
-	const xmlPath = path.join(options.output, "browserconfig.xml");
-	if ((await pathExists(xmlPath)) && !(await confirmOverwrite(xmlPath))) {
-		console.log(colors.yellow("⚠ Skipped browserconfig.xml"));
-		return;
-	}
-
-	const sizesForBrowser: Array<[number, number]> = [
-		[70, 70],
-		[150, 150],
-		[310, 150],
-		[310, 310],
-	];
-	for (const [w, h] of sizesForBrowser) {
-		const fname = `icon-${w}x${h}.png`;
-		const full = path.join(options.output, fname);
-		if (!(await pathExists(full))) {
-			console.log(colors.cyan(`⏳ Generating ${fname} for browserconfig...`));
-			const buf = await sharp(options.input).resize(w, h).png().toBuffer();
-			await writeFileSafe(full, buf);
-			console.log(colors.green(`✔ Generated ${fname}`));
+			return {
+				...config,
+				input: config.input,
+				logger: consoleLogger,
+				prompt: confirmAction,
+			};
+		};
+
+		if (loaded?.config.jobs?.length) {
+			if (options.watch) {
+				throw new FavigenError(
+					"INVALID_OPTION",
+					"--watch cannot be combined with batch jobs",
+				);
+			}
+			const jobs = expandJobs(loaded.config).map((job, i): BatchJob => {
+				const name = job.name ?? `jobs[${i}]`;
+				if (!job.input && !options.input) {
+					throw new FavigenError(
+						"INVALID_OPTION",
+						`Batch job "${name}" in ${loaded.path} has no input`,
+					);
+				}
+				return {
+					...toGenerateOptions(mergeCliOptions(program, options, job)),
+					name: job.name,
+				};
+			});
+			console.log(
+				colors.cyan(`🚀 Running ${jobs.length} favicon generation jobs...`),
+			);
+			console.log(colors.gray(`⚙ Using config ${loaded.path}`));
+			console.log();
+			const batch = await generateBatch({
+				jobs,
+				concurrency: options.concurrency,
+			});
+			console.log();
+			printBatchSummary(batch);
+			console.log();
+			if (batch.failed > 0) {
+				console.log(
+					colors.red(`✖ ${batch.failed} of ${jobs.length} job(s) failed`),
+				);
+				process.exit(1);
+			}
+			console.log(
+				colors.green(`🎉 All ${jobs.length} jobs completed successfully!`),
+			);
+			return;
 		}
-	}
 
-	console.log(colors.cyan("⏳ Writing browserconfig.xml..."));
-	const xml = `<?xml version="1.0" encoding="utf-8"?>
-<browserconfig>
-  <msapplication>
-    <tile>
-      <square70x70logo src="icon-70x70.png"/>
-      <square150x150logo src="icon-150x150.png"/>
-      <wide310x150logo src="icon-310x150.png"/>
-      <square310x310logo src="icon-310x310.png"/>
-      <TileColor>${themeColor}</TileColor>
-    </tile>
-  </msapplication>
-</browserconfig>`;
-	await writeFileSafe(xmlPath, xml);
-	console.log(colors.green("✔ Generated browserconfig.xml"));
-}
+		const settings = mergeCliOptions(program, options, loaded?.config);
+		const generateOptions = toGenerateOptions(settings);
 
-(async () => {
-	try {
 		console.log(colors.cyan("🚀 Starting favicon generation..."));
+		if (loaded) {
+			console.log(colors.gray(`⚙ Using config ${loaded.path}`));
+		}
 		console.log();
 
-		await validatePathsAndInput();
-		console.log();
-
-		if (!options.themeColor) {
-			const detected = await detectThemeColor();
-			console.log(colors.magenta(`🎨 Detected theme color: ${detected}`));
-			options.themeColor = detected;
+		const result = options.watch
+			? (
+					await watchFavicons({
+						load: async () => {
+							const reloaded = loaded
+								? await loadConfig({ configFile: loaded.path })
+								: null;
+							return toGenerateOptions(
+								mergeCliOptions(program, options, reloaded?.config),
+							);
+						},
+						configFiles: loaded ? [loaded.path] : [],
+						logger: consoleLogger,
+					})
+				).initial
+			: await generateFavicons(generateOptions);
+
+		if (result.css) {
 			console.log();
+			console.log(colors.cyan("📋 Use the cursor in your CSS:"));
+			console.log(result.css);
 		}
 
-		const buffers = await generatePngIcons();
-		await generateIco(buffers);
-
-		if (options.manifest && options.themeColor) {
-			await generateManifest(options.themeColor);
-		}
-		if (options.browserconfig && options.themeColor) {
-			await generateBrowserConfig(options.themeColor);
+		if (options.html === true && result.html) {
+			console.log();
+			console.log(colors.cyan("📋 Add these tags to your <head>:"));
+			console.log(result.html);
+			if (result.picture) {
+				console.log();
+				console.log(colors.cyan("📋 Show the logo in your pages with:"));
+				console.log(result.picture);
+			}
 		}
 
 		console.log();
-		console.log(colors.green("🎉 Favicon generation completed successfully!"));
 		console.log(
-			colors.cyan(`📁 Files generated in: ${colors.white(options.output)}`),
+			colors.green(
+				`🎉 ${result.css ? "Cursor" : "Favicon"} generation completed successfully!`,
+			),
+		);
+		console.log(
+			colors.cyan(`📁 Files generated in: ${colors.white(result.output)}`),
 		);
+		if (result.upToDate.length > 0) {
+			console.log(
+				colors.cyan(
+					`♻️  ${result.upToDate.length} file(s) up to date (use --force to regenerate)`,
+				),
+			);
+		}
 
-		if (!options.manifest && !options.browserconfig) {
+		if (options.watch) {
+			console.log();
+			console.log(
+				colors.cyan(
+					`👀 Watching ${settings.input}${loaded ? ` and ${loaded.path}` : ""} for changes (Ctrl+C to stop)`,
+				),
+			);
+			return;
+		}
+
+		if (
+			!settings.cursor &&
+			!settings.platforms &&
+			!settings.manifest &&
+			!settings.browserconfig
+		) {
 			console.log();
 			console.log(
 				colors.gray(
-					"💡 Tip: Use --manifest and --browserconfig flags for web app support",
+					"💡 Tip: Use --platforms web,apple,pwa (or --manifest/--browserconfig) for web app support",
 				),
 			);
 		}
 	} catch (err) {
+		if (isFavigenError(err) && err.code === "CANCELLED") {
+			console.log(colors.gray(err.message));
+			process.exit(0);
+		}
 		console.error();
 		console.error(colors.red("✖ Error:"), (err as Error).message);
 		console.error();
+		// The size report already printed a tip matching the largest file
+		if (isFavigenError(err) && err.code === "BUDGET_EXCEEDED") {
+			process.exit(1);
+		}
 		console.error(colors.gray("💡 Tips:"));
 		console.error(
 			colors.gray("  • Check that input file exists and is a valid image"),
@@ -396,4 +468,6 @@ async function generateBrowserConfig(themeColor: string) {
 		);
 		process.exit(1);
 	}
-})();
+});
+
+program.parseAsync(process.argv);
@@ -0,0 +1,82 @@
+/**
+ * Programmatic API for favigen
+ * Import this module to generate favicons from build scripts and plugins
+ */
+
+export { generateBatch } from "./core/batch";
+export {
+	CONFIG_FILE_NAMES,
+	defineConfig,
+	expandJobs,
+	findConfigFile,
+	type LoadedConfig,
+	loadConfig,
+	validateConfig,
+} from "./core/config";
+export { extractIcons } from "./core/extract";
+export { generateFavicons } from "./core/generate";
+export { inspectFavicons } from "./core/inspect";
+export { watchFavicons } from "./core/watch";
+export {
+	DEFAULT_ICO_SIZES,
+	DEFAULT_SIZES,
+	parseByteSize,
+	parseRatio,
+	parseSizeList,
+	parseSourceMap,
+} from "./core/options";
+export {
+	contrastRatio,
+	extractPalette,
+	parseColor,
+	relativeLuminance,
+} from "./core/palette";
+export { detectColors, detectThemeColor } from "./core/themeColor";
+export {
+	FavigenError,
+	type FavigenErrorCode,
+	isFavigenError,
+} from "./errors";
+export type {
+	BatchJob,
+	BatchJobResult,
+	BatchOptions,
+	BatchResult,
+	DetectedColors,
+	ExtractedImage,
+	ExtractOptions,
+	ExtractResult,
+	FavigenConfig,
+	FavigenJob,
+	FavigenOptions,
+	GeneratedFile,
+	GenerateResult,
+	IcoFormat,
+	ImageFormat,
+	InspectFinding,
+	InspectLevel,
+	InspectOptions,
+	InspectReport,
+	FavigenWatcher,
+	Logger,
+	PaletteColor,
+	PreprocessOptions,
+	PreprocessTarget,
+	PromptFn,
+	SizeReport,
+	WatchOptions,
+} from "./types";
+export {
+	type CurImage,
+	type DecodedIco,
+	type DecodedIcoImage,
+	decodeIco,
+	encodeCur,
+	encodeIco,
+	getIcoInfo,
+	hybridIcoFormat,
+	type IcoEncodeOptions,
+	type IcoEntryFormat,
+	isValidIco,
+	pngToIco,
+} from "./utils";
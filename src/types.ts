@@ -0,0 +1,636 @@
+/**
+ * Public types for the favigen programmatic API
+ */
+
+import type { FavigenError } from "./errors";
+
+/**
+ * Receives progress messages emitted during generation.
+ * The CLI maps these onto coloured console output; library callers
+ * can forward them to their own logger or omit it to stay silent.
+ */
+export interface Logger {
+	info(message: string): void;
+	success(message: string): void;
+	warn(message: string): void;
+}
+
+/**
+ * Asks the user a yes/no question, resolving to true when confirmed
+ */
+export type PromptFn = (message: string) => Promise<boolean>;
+
+/**
+ * An app shortcut entry in the web app manifest
+ */
+export interface ManifestShortcut {
+	name: string;
+	url: string;
+	short_name?: string;
+	description?: string;
+	icons?: ManifestImage[];
+}
+
+/**
+ * An image resource (icon or screenshot) in the web app manifest
+ */
+export interface ManifestImage {
+	src: string;
+	sizes?: string;
+	type?: string;
+	purpose?: string;
+	form_factor?: "narrow" | "wide";
+	label?: string;
+}
+
+/**
+ * Web app manifest members favigen can write besides icons and colours.
+ * Keys use the manifest's own snake_case names.
+ */
+export interface ManifestFields {
+	name?: string;
+	short_name?: string;
+	description?: string;
+	id?: string;
+	start_url?: string;
+	scope?: string;
+	display?: "fullscreen" | "standalone" | "minimal-ui" | "browser";
+	orientation?:
+		| "any"
+		| "natural"
+		| "landscape"
+		| "landscape-primary"
+		| "landscape-secondary"
+		| "portrait"
+		| "portrait-primary"
+		| "portrait-secondary";
+	lang?: string;
+	dir?: "ltr" | "rtl" | "auto";
+	categories?: string[];
+	shortcuts?: ManifestShortcut[];
+	screenshots?: ManifestImage[];
+}
+
+/**
+ * Windows tile names as used in browserconfig.xml
+ */
+export type TileName =
+	| "square70x70"
+	| "square150x150"
+	| "wide310x150"
+	| "square310x310";
+
+/**
+ * Tiles whose padding can be set: the browserconfig.xml tiles and the
+ * Windows 8 TileImage
+ */
+export type TilePaddingKey = TileName | "tileImage";
+
+/**
+ * Live tile notification polling settings for browserconfig.xml
+ */
+export interface TileNotification {
+	/** Up to five URIs polled for tile notifications */
+	pollingUris: string[];
+	/** Polling interval in minutes: 30, 60, 360, 720 or 1440 */
+	frequency?: number;
+	/** Notification cycle mode (0-7) */
+	cycle?: number;
+}
+
+/**
+ * Badge polling settings for browserconfig.xml
+ */
+export interface TileBadge {
+	pollingUri: string;
+	/** Polling interval in minutes: 30, 60, 360, 720 or 1440 */
+	frequency?: number;
+}
+
+/**
+ * Named platform targets that bundle sizes and companion files
+ */
+export type PlatformName = "web" | "apple" | "android" | "windows" | "pwa";
+
+/**
+ * Storage format of favicon.ico entries: all PNG, all BMP, or BMP for
+ * 48px and below with PNG for larger sizes
+ */
+export type IcoFormat = "png" | "bmp" | "hybrid";
+
+/**
+ * Formats that can be written next to the PNG icons
+ */
+export type ImageFormat = "avif" | "webp";
+
+/**
+ * Resampling kernel used when resizing raster sources
+ */
+export type ResizeKernel =
+	| "nearest"
+	| "cubic"
+	| "mitchell"
+	| "lanczos2"
+	| "lanczos3";
+
+/**
+ * Outputs that can be preprocessed separately: plain favicons (PNG, ICO
+ * and dark variants), Apple touch icons, maskable and monochrome icons,
+ * and Windows tiles
+ */
+export type PreprocessTarget =
+	| "favicon"
+	| "apple"
+	| "maskable"
+	| "monochrome"
+	| "windows";
+
+/**
+ * Image treatment applied to the source before it is resized
+ */
+export interface PreprocessOptions {
+	/** Trim transparent or uniform-colour borders around the logo */
+	trim?: boolean;
+	/** Space around the logo as a fraction of the icon size (0-0.5) */
+	padding?: number;
+	/** How a non-square logo fits its box, defaults to "contain" */
+	fit?: "contain" | "cover";
+	/** Fill behind the logo, transparent by default */
+	background?: string;
+	/** Corner radius as a fraction of the icon size (0-0.5) */
+	radius?: number;
+	/** Crop the icon to a circle */
+	circle?: boolean;
+}
+
+/**
+ * Options accepted by `generateFavicons`
+ */
+export interface FavigenOptions {
+	/** Source image file (SVG/PNG/JPEG/WebP) */
+	input: string;
+	/**
+	 * Hand-tuned artwork for small sizes. Each size is drawn from the
+	 * smallest source that does not need upscaling.
+	 */
+	inputSmall?: string;
+	/** Explicit source file per icon size, e.g. `{ "16": "icon16.png" }` */
+	sourceMap?: Record<string, string>;
+	/**
+	 * Dark-mode artwork. Paired dark icons are written and linked under
+	 * `prefers-color-scheme: dark`.
+	 */
+	inputDark?: string;
+	/** Output directory, defaults to "icons" */
+	output?: string;
+	/**
+	 * Platform targets to generate for, e.g. ["web", "apple", "pwa"].
+	 * Each target adds its sizes and companion files.
+	 */
+	platforms?: PlatformName[] | string;
+	/**
+	 * Icon sizes as numbers or a comma-separated list. Replaces the sizes
+	 * from `platforms` when both are given.
+	 */
+	sizes?: number[] | string;
+	/** Auto-confirm all prompts (overwrite files, external paths) */
+	yes?: boolean;
+	/** Preview operations without writing files */
+	dryRun?: boolean;
+	/**
+	 * Regenerate every file, ignoring the `.favigen-cache.json` record of
+	 * unchanged outputs
+	 */
+	force?: boolean;
+	/**
+	 * Keep each file a run replaces as `<file>.backup`. Files are always
+	 * staged and moved into place together once every step has succeeded.
+	 */
+	backup?: boolean;
+	/**
+	 * Sizes embedded in favicon.ico as numbers or a comma-separated list,
+	 * independent of `sizes`. Defaults to 16, 32 and 48px; at most 256px.
+	 */
+	icoSizes?: number[] | string;
+	/**
+	 * Quantize PNG icons to an indexed palette (lossy, often much smaller).
+	 * Implied by `pngColors` and `pngDither`.
+	 */
+	pngPalette?: boolean;
+	/** Maximum palette size when quantizing, 2-256 (default 256) */
+	pngColors?: number;
+	/** Dithering when quantizing, 0 (none) to 1 (default) */
+	pngDither?: number;
+	/** zlib compression level for PNG icons, 0-9 (default 9) */
+	pngCompression?: number;
+	/**
+	 * Remove ancillary chunks (such as pHYs) from PNG icons and ICO entries,
+	 * defaults to true. Source ICC profiles and text chunks are never carried
+	 * over, since icons are rendered in sRGB.
+	 */
+	stripMetadata?: boolean;
+	/**
+	 * Maximum total size of the files in the output directory, in bytes or
+	 * as a string such as "40KB" or "1.5MB". The run fails when exceeded.
+	 */
+	sizeBudget?: number | string;
+	/**
+	 * Formats written next to every PNG icon, as a list or a comma-separated
+	 * string such as "webp,avif". favicon.ico, Apple icons and Windows tiles
+	 * stay PNG.
+	 */
+	formats?: ImageFormat[] | string;
+	/** WebP quality, 1-100 (default 80) */
+	webpQuality?: number;
+	/** AVIF quality, 1-100 (default 50) */
+	avifQuality?: number;
+	/** How favicon.ico entries are stored, defaults to "hybrid" */
+	icoFormat?: IcoFormat;
+	/**
+	 * Generate cursor.cur and cursor.css instead of favicons. Uses `sizes`
+	 * when given, otherwise 32, 48 and 64px.
+	 */
+	cursor?: boolean;
+	/**
+	 * Cursor click point in source image pixels, as `{ x, y }` or "x,y".
+	 * Scaled to every cursor size; defaults to the top-left corner.
+	 */
+	cursorHotspot?: { x: number; y: number } | string;
+	/** Generate the web app manifest */
+	manifest?: boolean;
+	/** Manifest file name, defaults to "site.webmanifest" */
+	manifestFileName?: string;
+	/**
+	 * Update only icons and colours (plus any `manifestFields`) of an
+	 * existing manifest instead of overwriting it
+	 */
+	manifestMerge?: boolean;
+	/** Additional manifest members such as start_url, scope or shortcuts */
+	manifestFields?: ManifestFields;
+	/** Generate maskable icons (purpose "maskable") for the manifest */
+	maskable?: boolean;
+	/** Canvas color behind maskable icons, defaults to the background color */
+	maskableBackground?: string;
+	/**
+	 * Padding on each side of maskable icons as a fraction of the size
+	 * (0-0.5). By default the logo is fitted into the 80% safe-zone circle.
+	 */
+	maskablePadding?: number;
+	/** Write maskable-preview.png showing the circle and squircle masks */
+	maskablePreview?: boolean;
+	/** Generate monochrome icons (purpose "monochrome") from the alpha channel */
+	monochrome?: boolean;
+	/** Generate apple-touch-icon.png and apple-touch-icon-precomposed.png */
+	apple?: boolean;
+	/** Opaque background for Apple assets, defaults to the background color */
+	appleBackground?: string;
+	/** Padding on each side of the Apple touch icon (0-0.5), defaults to 0.1 */
+	applePadding?: number;
+	/** Generate apple-touch-startup-image splash screens for iPhone and iPad */
+	appleStartupImages?: boolean;
+	/** Generate browserconfig.xml */
+	browserconfig?: boolean;
+	/**
+	 * Padding around the logo on Windows tiles as a fraction of the tile
+	 * height, for all tiles or per tile (`tileImage` for the 144x144
+	 * TileImage). Defaults follow Microsoft's guidance.
+	 */
+	tilePadding?: number | Partial<Record<TilePaddingKey, number>>;
+	/** Add a 144x144 TileImage for Windows 8 */
+	tileImage?: boolean;
+	/** Live tile notification polling */
+	tileNotification?: TileNotification;
+	/** Badge polling */
+	tileBadge?: TileBadge;
+	/** Application name for manifest files, defaults to "App" */
+	appName?: string;
+	/** Theme color (any CSS color), defaults to the dominant color of the image */
+	themeColor?: string;
+	/** Manifest background color, defaults to white or black (see `detectColors`) */
+	backgroundColor?: string;
+	/**
+	 * Dark mode treatment for favicon.svg when the input is an SVG:
+	 * "invert", or a colour used to fill every shape
+	 */
+	svgDark?: string;
+	/**
+	 * Derive dark-mode icons from the input when there is no `inputDark`:
+	 * "invert", or a colour used to recolour a monochrome logo
+	 */
+	dark?: string;
+	/** Dark-mode theme color, defaults to the dominant color of the dark icons */
+	themeColorDark?: string;
+	/**
+	 * Resampling kernel, defaults to "lanczos3". "nearest" keeps pixel art
+	 * crisp; "mitchell" rings less around hard edges.
+	 */
+	kernel?: ResizeKernel;
+	/**
+	 * Unsharp-mask icons up to this size after resizing; `true` means 32px
+	 */
+	sharpen?: boolean | number;
+	/**
+	 * Preprocessing for raster icons. Top-level settings apply to every
+	 * target that supports them (padding, background, radius and circle
+	 * only to favicons, monochrome icons and tiles); `platforms` sets them
+	 * per target.
+	 */
+	preprocess?: PreprocessOptions & {
+		platforms?: Partial<Record<PreprocessTarget, PreprocessOptions>>;
+	};
+	/** Write the HTML <head> snippet to this file */
+	htmlFile?: string;
+	/** Replace the favigen block (or existing icon tags) in this HTML file */
+	inject?: string;
+	/** Prefix for hrefs in the HTML snippet, defaults to "/" */
+	publicPath?: string;
+	/** Receives progress messages; output is silent when omitted */
+	logger?: Logger;
+	/**
+	 * Asked before overwriting files or writing outside the working directory.
+	 * Without it, existing files are only overwritten when `yes` is set.
+	 */
+	prompt?: PromptFn;
+}
+
+/**
+ * Settings accepted in favigen.config.{json,js,ts} or the "favigen" key
+ * of package.json. Relative paths resolve against the config file.
+ */
+export type FavigenConfig = Omit<
+	FavigenOptions,
+	"input" | "logger" | "prompt"
+> & {
+	input?: string;
+	/**
+	 * Batch jobs, one per app or brand. Each job is layered over the other
+	 * top-level settings, which act as shared defaults.
+	 */
+	jobs?: FavigenJob[];
+};
+
+/**
+ * One entry of a config's `jobs` list
+ */
+export type FavigenJob = Omit<FavigenConfig, "jobs"> & {
+	/** Label used in logs and the summary; defaults to the output directory name */
+	name?: string;
+};
+
+/**
+ * A dominant color of the source image
+ */
+export interface PaletteColor {
+	/** Hex color such as "#336699" */
+	hex: string;
+	/** Red, green and blue channels (0-255) */
+	rgb: [number, number, number];
+	/** Share of the counted (opaque, non-neutral) pixels, 0-1 */
+	share: number;
+}
+
+/**
+ * Colors chosen from the source image's palette
+ */
+export interface DetectedColors {
+	/** Dominant color of the logo, used for `theme_color` */
+	themeColor: string;
+	/** White, or black when it contrasts better and white falls below 3:1 */
+	backgroundColor: string;
+	/** WCAG contrast ratio of `backgroundColor` against the dominant color */
+	contrast: number;
+	/** Dominant colors, most common first */
+	palette: PaletteColor[];
+}
+
+/**
+ * A file produced (or, in dry-run mode, planned) by a generation run
+ */
+export interface GeneratedFile {
+	/** Absolute path of the file */
+	path: string;
+	/** Path relative to the output directory */
+	name: string;
+	/** Size of the written data in bytes */
+	bytes: number;
+}
+
+/**
+ * Byte sizes of a run's output files
+ */
+export interface SizeReport {
+	/** Files in the output directory, written or up to date, largest first */
+	files: Array<{ name: string; bytes: number }>;
+	/** Sum of the file sizes */
+	total: number;
+	/** Budget in bytes the total was checked against; unset on partial watch rebuilds */
+	budget?: number;
+}
+
+/**
+ * Structured result returned by `generateFavicons`
+ */
+export interface GenerateResult {
+	/** Resolved absolute input path */
+	input: string;
+	/** Resolved absolute output directory */
+	output: string;
+	/** PNG icon sizes that were requested */
+	sizes: number[];
+	/** Theme color used for manifest/browserconfig */
+	themeColor: string;
+	/** Background color used for the manifest */
+	backgroundColor: string;
+	/** Theme color for dark mode, when dark variants were produced */
+	themeColorDark?: string;
+	/** HTML <head> tags referencing the generated files */
+	html: string;
+	/**
+	 * <picture> element for the largest icon with its `formats` siblings,
+	 * for using the logo inside pages
+	 */
+	picture?: string;
+	/** CSS `cursor` declaration for the generated cursor (cursor mode only) */
+	css?: string;
+	/** Whether the run was a dry run (nothing written) */
+	dryRun: boolean;
+	/** Files written during the run */
+	files: GeneratedFile[];
+	/** Files that already existed and were left untouched */
+	skipped: string[];
+	/** Files kept because their inputs and contents were unchanged */
+	upToDate: string[];
+	/** Byte sizes of the output files against the budget */
+	sizeReport: SizeReport;
+	/** Non-fatal problems encountered during the run */
+	warnings: string[];
+}
+
+/**
+ * Options accepted by `extractIcons`
+ */
+export interface ExtractOptions {
+	/** ICO or CUR file to extract images from */
+	input: string;
+	/** Output directory, defaults to the input file name without extension */
+	output?: string;
+	/** Overwrite existing files without asking */
+	yes?: boolean;
+	/** Preview operations without writing files */
+	dryRun?: boolean;
+	/** Receives progress messages; output is silent when omitted */
+	logger?: Logger;
+	/** Asked before overwriting existing files */
+	prompt?: PromptFn;
+}
+
+/**
+ * An image recovered from an ICO or CUR file
+ */
+export interface ExtractedImage {
+	/** Path of the written PNG relative to the output directory */
+	name: string;
+	width: number;
+	height: number;
+	/** Bits per pixel of the stored image */
+	bitDepth: number;
+	/** Whether the image was stored as PNG or BMP inside the file */
+	format: "png" | "bmp";
+	/** Cursor hotspot (CUR files only) */
+	hotspot?: { x: number; y: number };
+}
+
+/**
+ * Structured result returned by `extractIcons`
+ */
+export interface ExtractResult {
+	/** Resolved absolute input path */
+	input: string;
+	/** Resolved absolute output directory */
+	output: string;
+	/** Container type of the input */
+	type: "ICO" | "CUR";
+	/** Every image in the file, in directory order */
+	images: ExtractedImage[];
+	/** Whether the run was a dry run (nothing written) */
+	dryRun: boolean;
+	/** Files written during the run */
+	files: GeneratedFile[];
+	/** Files that already existed and were left untouched */
+	skipped: string[];
+}
+
+/**
+ * Severity of an inspection finding
+ */
+export type InspectLevel = "ok" | "warning" | "error";
+
+/**
+ * A single result of `inspectFavicons`
+ */
+export interface InspectFinding {
+	level: InspectLevel;
+	/** File the finding is about, relative to the inspected root */
+	file?: string;
+	message: string;
+}
+
+/**
+ * Options accepted by `inspectFavicons`
+ */
+export interface InspectOptions {
+	/** Output directory or HTML file to audit */
+	target: string;
+	/**
+	 * Directory that root-relative URLs ("/icons/x.png") resolve against.
+	 * Defaults to the target directory, or the HTML file's directory.
+	 */
+	root?: string;
+}
+
+/**
+ * Structured result returned by `inspectFavicons`
+ */
+export interface InspectReport {
+	/** Resolved absolute target */
+	target: string;
+	/** Directory root-relative URLs were resolved against */
+	root: string;
+	findings: InspectFinding[];
+	/** Number of findings with level "error" */
+	errors: number;
+	/** Number of findings with level "warning" */
+	warnings: number;
+}
+
+/**
+ * Options accepted by `watchFavicons`
+ */
+export interface WatchOptions {
+	/** Loads the generation options; called again whenever a config file changes */
+	load: () => Promise<FavigenOptions>;
+	/** Config files whose changes reload the options */
+	configFiles?: string[];
+	/** Quiet period in milliseconds before a rebuild starts, defaults to 200 */
+	debounce?: number;
+	/** Receives watcher messages such as rebuilds and failures */
+	logger?: Logger;
+	/** Called after every successful rebuild */
+	onRebuild?: (result: GenerateResult) => void;
+}
+
+/**
+ * A running watcher returned by `watchFavicons`
+ */
+export interface FavigenWatcher {
+	/** Result of the initial build */
+	initial: GenerateResult;
+	/** Stops watching */
+	close(): void;
+}
+
+/**
+ * A job run by `generateBatch`
+ */
+export type BatchJob = FavigenOptions & {
+	/** Label used in logs and the summary; defaults to the output directory name */
+	name?: string;
+};
+
+/**
+ * Options accepted by `generateBatch`
+ */
+export interface BatchOptions {
+	/** Jobs to run */
+	jobs: BatchJob[];
+	/** Maximum number of jobs running at once, defaults to the CPU count (max 4) */
+	concurrency?: number;
+	/** Called as each job finishes, successfully or not */
+	onJobComplete?: (job: BatchJobResult) => void;
+}
+
+/**
+ * Outcome of one batch job
+ */
+export interface BatchJobResult {
+	/** Job label */
+	name: string;
+	/** Output directory of the job */
+	output: string;
+	/** Generation result, when the job succeeded */
+	result?: GenerateResult;
+	/** Failure, when the job did not succeed */
+	error?: FavigenError;
+	/** Wall-clock time of the job in milliseconds */
+	duration: number;
+}
+
+/**
+ * Structured result returned by `generateBatch`
+ */
+export interface BatchResult {
+	/** Job outcomes, in the order the jobs were given */
+	jobs: BatchJobResult[];
+	/** Number of jobs that failed */
+	failed: number;
+}
@@ -80,6 +80,11 @@ export async function getFileSize(filePath: string): Promise<number> {
 export const writeFile = fsp.writeFile;
 export const readFile = fsp.readFile;
 export const stat = fsp.stat;
+export const readdir = fsp.readdir;
+export const rename = fsp.rename;
+export const copyFile = fsp.copyFile;
+export const mkdtemp = fsp.mkdtemp;
+export const rm = fsp.rm;
 
 /**
  * Writes an object to a JSON file with proper formatting and error handling
@@ -138,6 +143,19 @@ export async function readJson<T = unknown>(filePath: string): Promise<T> {
 	}
 }
 
+/**
+ * Copies a file to `<file>.backup` if it exists
+ * @param filePath - File about to be replaced
+ * @returns Promise resolving to true if a backup was made
+ */
+export async function backupFile(filePath: string): Promise<boolean> {
+	if (!(await pathExists(filePath))) {
+		return false;
+	}
+	await fsp.copyFile(filePath, `${filePath}.backup`);
+	return true;
+}
+
 /**
  * Safely writes data to a file with backup creation
  * @param filePath - Path to write to
@@ -155,9 +173,8 @@ export async function safeWriteFile(
 
 	try {
 		// Create backup if file exists and backup is requested
-		if (options?.backup && await pathExists(filePath)) {
-			const backupPath = `${filePath}.backup`;
-			await fsp.copyFile(filePath, backupPath);
+		if (options?.backup) {
+			await backupFile(filePath);
 		}
 
 		await fsp.writeFile(filePath, data, options?.encoding || "utf8");
@@ -0,0 +1,117 @@
+/**
+ * HTML text utilities
+ * Builds favicon tags and injects them into an existing document's <head>
+ */
+
+/** Marker comments delimiting the block managed by favigen */
+export const HTML_MARKER_START = "<!-- favigen:start -->";
+export const HTML_MARKER_END = "<!-- favigen:end -->";
+
+/** Existing tags replaced when no marked block is present */
+const ICON_TAG_PATTERN =
+	/[ \t]*<(?:link\b[^>]*\brel=["']?(?:icon|shortcut icon|apple-touch-icon(?:-precomposed)?|apple-touch-startup-image|manifest|mask-icon)["'\s>]|meta\b[^>]*\bname=["']?(?:theme-color|msapplication-[\w-]+|apple-mobile-web-app-[\w-]+)["'\s>])[^>]*>[ \t]*\r?\n?/gi;
+
+/**
+ * Escapes a value for use inside a double-quoted HTML attribute
+ * @param value - Raw attribute value
+ * @returns Escaped value
+ */
+export function escapeAttribute(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+/**
+ * Renders a void HTML element such as <link> or <meta>
+ * @param tag - Element name
+ * @param attrs - Attributes in output order; undefined values are omitted
+ * @returns Element markup
+ */
+export function htmlTag(
+	tag: string,
+	attrs: Record<string, string | undefined>,
+): string {
+	const rendered = Object.entries(attrs)
+		.filter((entry): entry is [string, string] => entry[1] !== undefined)
+		.map(([name, value]) => `${name}="${escapeAttribute(value)}"`)
+		.join(" ");
+	return `<${tag} ${rendered}>`;
+}
+
+/**
+ * Replaces the favigen block (or existing icon tags) inside <head>.
+ * Everything outside the managed tags is left untouched.
+ * @param html - Existing HTML document
+ * @param tags - Tags to place in the block
+ * @returns Updated HTML document
+ * @throws Error if the document has no <head> element
+ */
+export function injectHeadTags(html: string, tags: string[]): string {
+	const startIdx = html.indexOf(HTML_MARKER_START);
+	const endIdx = html.indexOf(HTML_MARKER_END);
+	if (startIdx !== -1 && endIdx > startIdx) {
+		const lineStart = html.lastIndexOf("\n", startIdx) + 1;
+		const indent = html.slice(lineStart, startIdx);
+		const block = renderBlock(tags, /^\s*$/.test(indent) ? indent : "");
+		return (
+			html.slice(0, lineStart) +
+			block +
+			html.slice(endIdx + HTML_MARKER_END.length)
+		);
+	}
+
+	const headOpen = /<head\b[^>]*>/i.exec(html);
+	const headCloseIdx = html.search(/<\/head>/i);
+	if (!headOpen || headCloseIdx === -1) {
+		throw new Error("HTML document has no <head> element");
+	}
+
+	const headStart = headOpen.index + headOpen[0].length;
+	const head = html
+		.slice(headStart, headCloseIdx)
+		.replace(ICON_TAG_PATTERN, "");
+	const indent = /\n([ \t]*)\S/.exec(head)?.[1] ?? "  ";
+	const closeLineStart = head.lastIndexOf("\n") + 1;
+	const updatedHead =
+		head.slice(0, closeLineStart) +
+		(closeLineStart === 0 ? "\n" : "") +
+		renderBlock(tags, indent) +
+		"\n" +
+		head.slice(closeLineStart);
+	return html.slice(0, headStart) + updatedHead + html.slice(headCloseIdx);
+}
+
+function renderBlock(tags: string[], indent: string): string {
+	return [HTML_MARKER_START, ...tags, HTML_MARKER_END]
+		.map((line) => indent + line)
+		.join("\n");
+}
+
+/**
+ * Finds every start tag of an element and parses its attributes
+ * @param html - HTML text
+ * @param tag - Element name such as "link" or "meta"
+ * @returns Attributes per tag, with lower-cased names
+ */
+export function findTags(html: string, tag: string): Record<string, string>[] {
+	const tags: Record<string, string>[] = [];
+	const tagPattern = new RegExp(`<${tag}\\b([^>]*)>`, "gi");
+	const attrPattern =
+		/([^\s"'=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+	for (const match of html.matchAll(tagPattern)) {
+		const attrs: Record<string, string> = {};
+		for (const attr of match[1].matchAll(attrPattern)) {
+			const value = attr[2] ?? attr[3] ?? attr[4] ?? "";
+			attrs[attr[1].toLowerCase()] = value
+				.replace(/&quot;/g, '"')
+				.replace(/&lt;/g, "<")
+				.replace(/&gt;/g, ">")
+				.replace(/&amp;/g, "&");
+		}
+		tags.push(attrs);
+	}
+	return tags;
+}
@@ -7,7 +7,9 @@ import * as colors from "./colors";
 
 // Re-export all utilities
 export * from "./fileSystem";
+export * from "./html";
 export * from "./pngToIco";
+export * from "./svg";
 
 // Export colors as both named export and namespace
 export { colors };
@@ -54,10 +56,12 @@ export const MIME_TYPES = {
 	".jpg": "image/jpeg",
 	".jpeg": "image/jpeg",
 	".webp": "image/webp",
+	".svg": "image/svg+xml",
 	".ico": "image/x-icon",
 	".json": "application/json",
 	".xml": "application/xml",
 	".html": "text/html",
+	".webmanifest": "application/manifest+json",
 	".css": "text/css",
 	".js": "application/javascript",
 	".ts": "application/typescript",
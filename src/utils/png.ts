@@ -0,0 +1,323 @@
+/**
+ * Minimal PNG codec
+ * Decodes non-interlaced PNGs to RGBA pixels and encodes RGBA pixels as PNG,
+ * so ICO/CUR entries can be converted between PNG and BMP without sharp
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+
+/** PNG file signature bytes */
+const PNG_SIGNATURE = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/** Channels per PNG color type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Raw 8-bit RGBA image, rows top to bottom
+ */
+export interface RgbaImage {
+	width: number;
+	height: number;
+	data: Buffer;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(buf: Buffer): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < buf.length; i++) {
+		crc = crcTable[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length, 0);
+	const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(typeAndData), 0);
+	return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Checks whether a buffer starts with the PNG signature
+ * @param buffer - Buffer to check
+ * @returns True if the buffer looks like a PNG
+ */
+export function isPng(buffer: Buffer): boolean {
+	return (
+		buffer.length >= PNG_SIGNATURE.length &&
+		buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+	);
+}
+
+/**
+ * Encodes RGBA pixels as an 8-bit RGBA PNG
+ * @param image - Pixels to encode
+ * @returns PNG buffer
+ */
+export function encodePng(image: RgbaImage): Buffer {
+	const { width, height, data } = image;
+	if (data.length !== width * height * 4) {
+		throw new Error(
+			`Expected ${width * height * 4} bytes of RGBA data, got ${data.length}`,
+		);
+	}
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr[8] = 8; // bit depth
+	ihdr[9] = 6; // color type RGBA
+	ihdr[10] = 0; // compression
+	ihdr[11] = 0; // filter
+	ihdr[12] = 0; // interlace
+
+	const stride = width * 4;
+	const raw = Buffer.alloc((stride + 1) * height);
+	for (let y = 0; y < height; y++) {
+		raw[y * (stride + 1)] = 0; // filter: none
+		data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+	}
+
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		chunk("IHDR", ihdr),
+		chunk("IDAT", deflateSync(raw)),
+		chunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	if (pa <= pb && pa <= pc) return a;
+	return pb <= pc ? b : c;
+}
+
+function unfilter(
+	raw: Buffer,
+	height: number,
+	stride: number,
+	bpp: number,
+): Buffer {
+	const out = Buffer.alloc(stride * height);
+	for (let y = 0; y < height; y++) {
+		const filter = raw[y * (stride + 1)];
+		const src = y * (stride + 1) + 1;
+		const dst = y * stride;
+		for (let x = 0; x < stride; x++) {
+			const value = raw[src + x];
+			const left = x >= bpp ? out[dst + x - bpp] : 0;
+			const up = y > 0 ? out[dst - stride + x] : 0;
+			const upLeft = y > 0 && x >= bpp ? out[dst - stride + x - bpp] : 0;
+			let predicted: number;
+			switch (filter) {
+				case 0:
+					predicted = 0;
+					break;
+				case 1:
+					predicted = left;
+					break;
+				case 2:
+					predicted = up;
+					break;
+				case 3:
+					predicted = (left + up) >> 1;
+					break;
+				case 4:
+					predicted = paeth(left, up, upLeft);
+					break;
+				default:
+					throw new Error(`Invalid PNG filter type ${filter} in row ${y}`);
+			}
+			out[dst + x] = (value + predicted) & 0xff;
+		}
+	}
+	return out;
+}
+
+/** Chunks needed to display a PNG; everything else is metadata */
+const IMAGE_CHUNKS = new Set(["IHDR", "PLTE", "tRNS", "IDAT", "IEND"]);
+
+/**
+ * Removes ancillary chunks (text, timestamps, physical size, color
+ * profiles, ...) from a PNG, keeping only what is needed to display it
+ * @param buffer - PNG buffer
+ * @returns PNG buffer without metadata chunks
+ * @throws Error if the buffer is not a PNG
+ */
+export function stripPngMetadata(buffer: Buffer): Buffer {
+	if (!isPng(buffer)) {
+		throw new Error("Invalid PNG signature");
+	}
+	const kept: Buffer[] = [PNG_SIGNATURE];
+	let offset = PNG_SIGNATURE.length;
+	while (offset + 8 <= buffer.length) {
+		const length = buffer.readUInt32BE(offset);
+		const type = buffer.toString("ascii", offset + 4, offset + 8);
+		const end = offset + 12 + length;
+		if (IMAGE_CHUNKS.has(type)) kept.push(buffer.subarray(offset, end));
+		offset = end;
+		if (type === "IEND") break;
+	}
+	return Buffer.concat(kept);
+}
+
+/**
+ * Decodes a non-interlaced PNG into 8-bit RGBA pixels
+ * @param buffer - PNG buffer
+ * @returns Decoded image
+ * @throws Error if the PNG is malformed or uses unsupported features
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+	if (!isPng(buffer)) {
+		throw new Error("Invalid PNG signature");
+	}
+
+	let offset = PNG_SIGNATURE.length;
+	let width = 0;
+	let height = 0;
+	let bitDepth = 0;
+	let colorType = 0;
+	let palette: Buffer | null = null;
+	let transparency: Buffer | null = null;
+	const idat: Buffer[] = [];
+
+	while (offset + 8 <= buffer.length) {
+		const length = buffer.readUInt32BE(offset);
+		const type = buffer.toString("ascii", offset + 4, offset + 8);
+		const data = buffer.subarray(offset + 8, offset + 8 + length);
+		offset += 12 + length;
+
+		if (type === "IHDR") {
+			width = data.readUInt32BE(0);
+			height = data.readUInt32BE(4);
+			bitDepth = data[8];
+			colorType = data[9];
+			if (data[12] !== 0) {
+				throw new Error("Interlaced PNGs are not supported");
+			}
+		} else if (type === "PLTE") {
+			palette = data;
+		} else if (type === "tRNS") {
+			transparency = data;
+		} else if (type === "IDAT") {
+			idat.push(data);
+		} else if (type === "IEND") {
+			break;
+		}
+	}
+
+	const channels = CHANNELS[colorType];
+	if (!width || !height || !channels) {
+		throw new Error(`Unsupported PNG (color type ${colorType})`);
+	}
+	if (colorType === 3 && !palette) {
+		throw new Error("Palette PNG is missing its PLTE chunk");
+	}
+
+	const bitsPerPixel = channels * bitDepth;
+	const stride = Math.ceil((width * bitsPerPixel) / 8);
+	const bpp = Math.max(1, bitsPerPixel >> 3);
+	const pixels = unfilter(
+		inflateSync(Buffer.concat(idat)),
+		height,
+		stride,
+		bpp,
+	);
+
+	/** Reads sample `i` of a row at the image's bit depth */
+	const raw = (row: number, i: number): number => {
+		const base = row * stride;
+		if (bitDepth === 8) return pixels[base + i];
+		if (bitDepth === 16) return pixels.readUInt16BE(base + i * 2);
+		const perByte = 8 / bitDepth;
+		const byte = pixels[base + Math.floor(i / perByte)];
+		const shift = 8 - bitDepth * ((i % perByte) + 1);
+		return (byte >> shift) & ((1 << bitDepth) - 1);
+	};
+
+	/** Reads sample `i` of a row as an 8-bit value (or palette index) */
+	const sample = (row: number, i: number): number => {
+		const value = raw(row, i);
+		if (colorType === 3 || bitDepth === 8) return value;
+		if (bitDepth === 16) return value >> 8;
+		return Math.round((value * 255) / ((1 << bitDepth) - 1));
+	};
+
+	// Grey and RGB images mark one colour transparent through tRNS, given
+	// as 16-bit samples compared at the image's bit depth
+	const keySamples = colorType === 0 ? 1 : colorType === 2 ? 3 : 0;
+	const key =
+		transparency && keySamples && transparency.length >= keySamples * 2
+			? Array.from({ length: keySamples }, (_, i) =>
+					transparency.readUInt16BE(i * 2),
+				)
+			: null;
+	/** Alpha of a grey or RGB pixel whose samples start at `s` */
+	const keyAlpha = (row: number, s: number): number =>
+		key?.every((value, i) => raw(row, s + i) === value) ? 0 : 255;
+
+	const data = Buffer.alloc(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const out = (y * width + x) * 4;
+			const s = x * channels;
+			switch (colorType) {
+				case 0: {
+					const g = sample(y, s);
+					data[out] = data[out + 1] = data[out + 2] = g;
+					data[out + 3] = keyAlpha(y, s);
+					break;
+				}
+				case 2:
+					data[out] = sample(y, s);
+					data[out + 1] = sample(y, s + 1);
+					data[out + 2] = sample(y, s + 2);
+					data[out + 3] = keyAlpha(y, s);
+					break;
+				case 3: {
+					const index = sample(y, s);
+					const plte = palette as Buffer;
+					data[out] = plte[index * 3];
+					data[out + 1] = plte[index * 3 + 1];
+					data[out + 2] = plte[index * 3 + 2];
+					data[out + 3] =
+						transparency && index < transparency.length
+							? transparency[index]
+							: 255;
+					break;
+				}
+				case 4: {
+					const g = sample(y, s);
+					data[out] = data[out + 1] = data[out + 2] = g;
+					data[out + 3] = sample(y, s + 1);
+					break;
+				}
+				case 6:
+					data[out] = sample(y, s);
+					data[out + 1] = sample(y, s + 1);
+					data[out + 2] = sample(y, s + 2);
+					data[out + 3] = sample(y, s + 3);
+					break;
+			}
+		}
+	}
+
+	return { width, height, data };
+}
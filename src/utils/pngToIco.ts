@@ -1,8 +1,11 @@
 /**
  * PNG to ICO conversion utilities
- * Supports creating ICO files from multiple PNG images
+ * Supports creating ICO and CUR files from multiple PNG images, stored as PNG or BMP/DIB entries,
+ * and decoding ICO/CUR files back into PNG images
  */
 
+import { decodePng, encodePng, isPng, type RgbaImage } from './png';
+
 /** PNG file signature bytes */
 const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
 
@@ -16,8 +19,29 @@ const ICO_CONSTANTS = {
 	TYPE_CUR: 2,
 	PLANES: 1,
 	BITS_PER_PIXEL: 32,
+	BITMAPINFOHEADER_SIZE: 40,
+	LEGACY_MAX_DIMENSION: 48,
 } as const;
 
+/** PNG channel count per IHDR color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * How an image is stored inside an ICO file
+ */
+export type IcoEntryFormat = 'png' | 'bmp';
+
+/**
+ * Options for encoding ICO files
+ */
+export interface IcoEncodeOptions {
+	/**
+	 * Storage format of the entries: one format for all, one per input buffer,
+	 * or a function picking a format from the image dimensions. Defaults to 'png'.
+	 */
+	format?: IcoEntryFormat | IcoEntryFormat[] | ((width: number, height: number) => IcoEntryFormat);
+}
+
 /**
  * Represents a PNG image with its metadata
  */
@@ -26,6 +50,65 @@ interface PngImageInfo {
 	width: number;
 	height: number;
 	size: number;
+	/** Bits per pixel derived from the IHDR bit depth and color type */
+	bitDepth: number;
+}
+
+/**
+ * An image decoded from an ICO or CUR file
+ */
+export interface DecodedIcoImage {
+	width: number;
+	height: number;
+	/** Bits per pixel of the stored image */
+	bitDepth: number;
+	/** How the image was stored in the file */
+	format: IcoEntryFormat;
+	/** The image re-encoded as PNG */
+	png: Buffer;
+	/** Cursor hotspot in pixels (CUR files only) */
+	hotspot?: { x: number; y: number };
+}
+
+/**
+ * Contents of a decoded ICO or CUR file
+ */
+export interface DecodedIco {
+	type: 'ICO' | 'CUR';
+	images: DecodedIcoImage[];
+}
+
+/**
+ * A cursor image with its hotspot
+ */
+export interface CurImage {
+	/** PNG image buffer */
+	png: Buffer;
+	/** Click point in pixels from the top-left corner of this image */
+	hotspot: { x: number; y: number };
+}
+
+/**
+ * Image data ready to be placed in an ICO file
+ */
+interface IcoImageEntry {
+	data: Buffer;
+	width: number;
+	height: number;
+	bitDepth: number;
+	/** Cursor hotspot, written instead of planes and bit depth in CUR files */
+	hotspot?: { x: number; y: number };
+}
+
+/**
+ * Picks BMP for legacy sizes (48px and below) and PNG for larger images,
+ * matching the layout Windows itself uses for favicon.ico
+ * @param width - Image width
+ * @param height - Image height
+ * @returns Entry format
+ */
+export function hybridIcoFormat(width: number, height: number): IcoEntryFormat {
+	return Math.max(width, height) <= ICO_CONSTANTS.LEGACY_MAX_DIMENSION ? 'bmp' : 'png';
 }
 
 /**
@@ -75,32 +158,120 @@ function validateAndExtractPngInfo(buffer: Buffer, index: number): PngImageInfo
 		throw new Error(`Image ${index}: Dimensions too large: ${width}x${height} (max ${ICO_CONSTANTS.MAX_DIMENSION}x${ICO_CONSTANTS.MAX_DIMENSION})`);
 	}
 
+	// Bit depth (offset 24) times channels of the color type (offset 25)
+	const channels = PNG_CHANNELS[buffer[25]];
+	if (!channels) {
+		throw new Error(`Image ${index}: Invalid PNG color type: ${buffer[25]}`);
+	}
+
 	return {
 		buffer,
 		width,
 		height,
 		size: buffer.length,
+		bitDepth: buffer[24] * channels,
 	};
 }
 
 /**
- * Creates an ICO directory entry for a PNG image
- * @param imageInfo - PNG image information
+ * Encodes RGBA pixels as a 32-bit BGRA DIB (BITMAPINFOHEADER, XOR bitmap, AND mask)
+ * @param image - Decoded image
+ * @returns DIB data as stored in an ICO entry
+ */
+function encodeDib(image: RgbaImage): Buffer {
+	const { width, height, data } = image;
+	const xorStride = width * 4;
+	// AND mask rows are 1 bit per pixel, padded to 32-bit boundaries
+	const andStride = Math.ceil(width / 32) * 4;
+	const xorSize = xorStride * height;
+	const andSize = andStride * height;
+
+	const header = Buffer.alloc(ICO_CONSTANTS.BITMAPINFOHEADER_SIZE);
+	header.writeUInt32LE(ICO_CONSTANTS.BITMAPINFOHEADER_SIZE, 0); // header size
+	header.writeInt32LE(width, 4); // width
+	header.writeInt32LE(height * 2, 8); // height of XOR + AND bitmaps
+	header.writeUInt16LE(ICO_CONSTANTS.PLANES, 12); // planes
+	header.writeUInt16LE(ICO_CONSTANTS.BITS_PER_PIXEL, 14); // bits per pixel
+	header.writeUInt32LE(0, 16); // compression (BI_RGB)
+	header.writeUInt32LE(xorSize + andSize, 20); // image size
+	// resolution and palette fields stay 0
+
+	const pixels = Buffer.alloc(xorSize + andSize);
+	for (let y = 0; y < height; y++) {
+		// DIB rows are stored bottom-up
+		const row = height - 1 - y;
+		for (let x = 0; x < width; x++) {
+			const src = (y * width + x) * 4;
+			const dst = row * xorStride + x * 4;
+			pixels[dst] = data[src + 2]; // blue
+			pixels[dst + 1] = data[src + 1]; // green
+			pixels[dst + 2] = data[src]; // red
+			pixels[dst + 3] = data[src + 3]; // alpha
+
+			// AND mask bit set means transparent, for readers that ignore alpha
+			if (data[src + 3] === 0) {
+				pixels[xorSize + row * andStride + (x >> 3)] |= 0x80 >> (x & 7);
+			}
+		}
+	}
+
+	return Buffer.concat([header, pixels]);
+}
+
+/**
+ * Resolves the storage format for the image at `index`
+ * @param format - Format option passed to the encoder
+ * @param info - PNG image information
+ * @param index - Image index
+ * @returns Entry format
+ */
+function resolveEntryFormat(format: IcoEncodeOptions['format'], info: PngImageInfo, index: number): IcoEntryFormat {
+	if (format === undefined) return 'png';
+	if (typeof format === 'function') return format(info.width, info.height);
+	if (Array.isArray(format)) return format[index] ?? 'png';
+	return format;
+}
+
+/**
+ * Converts a validated PNG into the data stored for its ICO entry
+ * @param info - PNG image information
+ * @param format - Entry format
+ * @returns ICO image entry
+ */
+function createIcoImageEntry(info: PngImageInfo, format: IcoEntryFormat): IcoImageEntry {
+	const { width, height } = info;
+	if (format === 'bmp') {
+		return { data: encodeDib(decodePng(info.buffer)), width, height, bitDepth: ICO_CONSTANTS.BITS_PER_PIXEL };
+	}
+	if (format !== 'png') {
+		throw new Error(`Unknown ICO entry format: ${format}`);
+	}
+	return { data: info.buffer, width, height, bitDepth: info.bitDepth };
+}
+
+/**
+ * Creates an ICO directory entry for an embedded image
+ * @param image - ICO image entry
  * @param offset - Offset to image data in the ICO file
  * @returns ICO directory entry buffer
  */
-function createIcoDirectoryEntry(imageInfo: PngImageInfo, offset: number): Buffer {
+function createIcoDirectoryEntry(image: IcoImageEntry, offset: number): Buffer {
 	const entry = Buffer.alloc(ICO_CONSTANTS.DIR_ENTRY_SIZE);
-	const { width, height, size } = imageInfo;
+	const { width, height, bitDepth } = image;
 
 	// ICO stores 256px as 0
 	entry[0] = width === ICO_CONSTANTS.MAX_DIMENSION ? 0 : width;
 	entry[1] = height === ICO_CONSTANTS.MAX_DIMENSION ? 0 : height;
-	entry[2] = 0; // color count (0 for PNG)
+	entry[2] = 0; // color count (0 for truecolor)
 	entry[3] = 0; // reserved
-	entry.writeUInt16LE(ICO_CONSTANTS.PLANES, 4); // planes
-	entry.writeUInt16LE(ICO_CONSTANTS.BITS_PER_PIXEL, 6); // bits per pixel
-	entry.writeUInt32LE(size, 8); // data size
+	if (image.hotspot) {
+		entry.writeUInt16LE(image.hotspot.x, 4); // hotspot x (CUR)
+		entry.writeUInt16LE(image.hotspot.y, 6); // hotspot y (CUR)
+	} else {
+		entry.writeUInt16LE(ICO_CONSTANTS.PLANES, 4); // planes
+		entry.writeUInt16LE(bitDepth, 6); // bits per pixel
+	}
+	entry.writeUInt32LE(image.data.length, 8); // data size
 	entry.writeUInt32LE(offset, 12); // data offset
 
 	return entry;
@@ -109,10 +280,37 @@ function createIcoDirectoryEntry(imageInfo: PngImageInfo, offset: number): Buffe
 /**
  * Encodes multiple PNG images into a single ICO file
  * @param pngBuffers - Array of PNG image buffers
+ * @param options - Encoding options (entry formats)
  * @returns ICO file buffer
  * @throws Error if input is invalid or encoding fails
  */
-export function encodeIco(pngBuffers: Buffer[]): Buffer {
+export function encodeIco(pngBuffers: Buffer[], options: IcoEncodeOptions = {}): Buffer {
+	return encodeIconFile(ICO_CONSTANTS.TYPE_ICO, pngBuffers, options);
+}
+
+/**
+ * Encodes cursor images into a single CUR file
+ * @param images - PNG images with their hotspots
+ * @param options - Encoding options (entry formats)
+ * @returns CUR file buffer
+ * @throws Error if input is invalid, a hotspot lies outside its image, or encoding fails
+ */
+export function encodeCur(images: CurImage[], options: IcoEncodeOptions = {}): Buffer {
+	if (!Array.isArray(images)) {
+		throw new Error('images must be an array');
+	}
+	return encodeIconFile(ICO_CONSTANTS.TYPE_CUR, images.map(image => image.png), options, images.map(image => image.hotspot));
+}
+
+/**
+ * Writes the shared ICO/CUR container: header, directory and image data
+ * @param type - TYPE_ICO or TYPE_CUR
+ * @param pngBuffers - Array of PNG image buffers
+ * @param options - Encoding options (entry formats)
+ * @param hotspots - Hotspot per image (CUR only)
+ * @returns File buffer
+ */
+function encodeIconFile(type: number, pngBuffers: Buffer[], options: IcoEncodeOptions, hotspots?: Array<{ x: number; y: number }>): Buffer {
 	if (!Array.isArray(pngBuffers)) {
 		throw new Error('pngBuffers must be an array');
 	}
@@ -125,12 +323,20 @@ export function encodeIco(pngBuffers: Buffer[]): Buffer {
 		throw new Error(`Too many images: ${pngBuffers.length} (max ${ICO_CONSTANTS.MAX_IMAGES})`);
 	}
 
-	// Validate all PNG buffers and extract information
-	const imageInfos: PngImageInfo[] = [];
+	// Validate all PNG buffers and convert them to their entry format
+	const imageInfos: IcoImageEntry[] = [];
 	for (let i = 0; i < pngBuffers.length; i++) {
 		try {
 			const info = validateAndExtractPngInfo(pngBuffers[i], i + 1);
-			imageInfos.push(info);
+			const entry = createIcoImageEntry(info, resolveEntryFormat(options.format, info, i));
+			if (hotspots) {
+				const { x, y } = hotspots[i] ?? { x: 0, y: 0 };
+				if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= info.width || y >= info.height) {
+					throw new Error(`Hotspot ${x},${y} lies outside the ${info.width}x${info.height} image`);
+				}
+				entry.hotspot = { x, y };
+			}
+			imageInfos.push(entry);
 		} catch (error) {
 			throw new Error(`Failed to process PNG image ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
 		}
@@ -149,10 +355,10 @@ export function encodeIco(pngBuffers: Buffer[]): Buffer {
 	const count = imageInfos.length;
 
 	// Create ICO header: 6 bytes
-	// 0–1: reserved (0), 2–3: type (1 for ICO), 4–5: image count
+	// 0–1: reserved (0), 2–3: type (1 for ICO, 2 for CUR), 4–5: image count
 	const header = Buffer.alloc(ICO_CONSTANTS.HEADER_SIZE);
 	header.writeUInt16LE(0, 0); // reserved
-	header.writeUInt16LE(ICO_CONSTANTS.TYPE_ICO, 2); // type
+	header.writeUInt16LE(type, 2); // type
 	header.writeUInt16LE(count, 4); // image count
 
 	// Create directory entries
@@ -162,21 +368,22 @@ export function encodeIco(pngBuffers: Buffer[]): Buffer {
 	for (let i = 0; i < count; i++) {
 		const entry = createIcoDirectoryEntry(imageInfos[i], offset);
 		entry.copy(dirEntries, i * ICO_CONSTANTS.DIR_ENTRY_SIZE);
-		offset += imageInfos[i].size;
+		offset += imageInfos[i].data.length;
 	}
 
 	// Combine header, directory entries, and image data
-	const imageBuffers = imageInfos.map(info => info.buffer);
+	const imageBuffers = imageInfos.map(info => info.data);
 	return Buffer.concat([header, dirEntries, ...imageBuffers]);
 }
 
 /**
  * Creates an ICO file from a single PNG buffer
  * @param pngBuffer - Single PNG image buffer
+ * @param options - Encoding options (entry format)
  * @returns ICO file buffer
  */
-export function pngToIco(pngBuffer: Buffer): Buffer {
-	return encodeIco([pngBuffer]);
+export function pngToIco(pngBuffer: Buffer, options: IcoEncodeOptions = {}): Buffer {
+	return encodeIco([pngBuffer], options);
 }
 
 /**
@@ -237,3 +444,139 @@ export function getIcoInfo(buffer: Buffer): { imageCount: number; type: 'ICO' |
 		images,
 	};
 }
+
+/**
+ * Decodes a BMP/DIB entry (BITMAPINFOHEADER followed by XOR bitmap and AND mask)
+ * @param data - Entry data from the ICO file
+ * @param index - Image index for error reporting
+ * @returns Decoded pixels and the stored bit depth
+ * @throws Error if the DIB is malformed or uses an unsupported layout
+ */
+function decodeDib(data: Buffer, index: number): { image: RgbaImage; bitDepth: number } {
+	if (data.length < ICO_CONSTANTS.BITMAPINFOHEADER_SIZE) {
+		throw new Error(`Image ${index}: BMP data too small (${data.length} bytes)`);
+	}
+
+	const headerSize = data.readUInt32LE(0);
+	const width = data.readInt32LE(4);
+	// The height covers both the XOR bitmap and the AND mask; negative means top-down rows
+	const rawHeight = data.readInt32LE(8);
+	const height = Math.abs(rawHeight) / 2;
+	const bitDepth = data.readUInt16LE(14);
+	const compression = data.readUInt32LE(16);
+	const colorsUsed = data.readUInt32LE(32);
+
+	if (width <= 0 || !Number.isInteger(height) || height === 0) {
+		throw new Error(`Image ${index}: Invalid BMP dimensions: ${width}x${rawHeight}`);
+	}
+	if (![1, 4, 8, 24, 32].includes(bitDepth)) {
+		throw new Error(`Image ${index}: Unsupported BMP bit depth: ${bitDepth}`);
+	}
+	// BI_RGB, or BI_BITFIELDS with the standard BGRA masks
+	if (compression !== 0 && compression !== 3) {
+		throw new Error(`Image ${index}: Unsupported BMP compression: ${compression}`);
+	}
+
+	let offset = headerSize;
+	if (compression === 3 && headerSize === ICO_CONSTANTS.BITMAPINFOHEADER_SIZE) {
+		offset += 12; // color masks follow a plain BITMAPINFOHEADER
+	}
+	const paletteSize = bitDepth <= 8 ? colorsUsed || 1 << bitDepth : 0;
+	const palette = data.subarray(offset, offset + paletteSize * 4);
+	offset += paletteSize * 4;
+
+	const xorStride = Math.ceil((width * bitDepth) / 32) * 4;
+	const andStride = Math.ceil(width / 32) * 4;
+	const andOffset = offset + xorStride * height;
+	if (andOffset > data.length) {
+		throw new Error(`Image ${index}: BMP data truncated (${data.length} bytes, ${andOffset} required)`);
+	}
+	// Some writers omit the AND mask of 32-bit images
+	const hasMask = andOffset + andStride * height <= data.length;
+
+	const pixels = Buffer.alloc(width * height * 4);
+	let hasAlpha = false;
+	for (let y = 0; y < height; y++) {
+		const row = rawHeight > 0 ? height - 1 - y : y;
+		const rowStart = offset + row * xorStride;
+		for (let x = 0; x < width; x++) {
+			const dst = (y * width + x) * 4;
+			if (bitDepth >= 24) {
+				const src = rowStart + x * (bitDepth / 8);
+				pixels[dst] = data[src + 2];
+				pixels[dst + 1] = data[src + 1];
+				pixels[dst + 2] = data[src];
+				pixels[dst + 3] = bitDepth === 32 ? data[src + 3] : 255;
+				if (bitDepth === 32 && data[src + 3] !== 0) hasAlpha = true;
+			} else {
+				const bit = x * bitDepth;
+				const byte = data[rowStart + (bit >> 3)];
+				const colorIndex = (byte >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+				pixels[dst] = palette[colorIndex * 4 + 2] ?? 0;
+				pixels[dst + 1] = palette[colorIndex * 4 + 1] ?? 0;
+				pixels[dst + 2] = palette[colorIndex * 4] ?? 0;
+				pixels[dst + 3] = 255;
+			}
+		}
+	}
+
+	// Without a real alpha channel, transparency comes from the AND mask
+	if (!hasAlpha) {
+		for (let y = 0; y < height; y++) {
+			const row = rawHeight > 0 ? height - 1 - y : y;
+			for (let x = 0; x < width; x++) {
+				const masked = hasMask && (data[andOffset + row * andStride + (x >> 3)] >> (7 - (x & 7))) & 1;
+				pixels[(y * width + x) * 4 + 3] = masked ? 0 : 255;
+			}
+		}
+	}
+
+	return { image: { width, height, data: pixels }, bitDepth };
+}
+
+/**
+ * Decodes every image in an ICO or CUR file into PNG buffers
+ * @param buffer - ICO or CUR file buffer
+ * @returns File type and decoded images, in directory order
+ * @throws Error if the file or one of its images is invalid
+ */
+export function decodeIco(buffer: Buffer): DecodedIco {
+	if (!isValidIco(buffer)) {
+		throw new Error('Invalid ICO file');
+	}
+
+	const type = buffer.readUInt16LE(2) === ICO_CONSTANTS.TYPE_CUR ? 'CUR' : 'ICO';
+	const count = buffer.readUInt16LE(4);
+	const images: DecodedIcoImage[] = [];
+
+	for (let i = 0; i < count; i++) {
+		const entryOffset = ICO_CONSTANTS.HEADER_SIZE + i * ICO_CONSTANTS.DIR_ENTRY_SIZE;
+		if (entryOffset + ICO_CONSTANTS.DIR_ENTRY_SIZE > buffer.length) {
+			throw new Error(`Image ${i + 1}: Directory entry is truncated`);
+		}
+
+		const size = buffer.readUInt32LE(entryOffset + 8);
+		const offset = buffer.readUInt32LE(entryOffset + 12);
+		if (offset + size > buffer.length) {
+			throw new Error(`Image ${i + 1}: Image data out of bounds (offset ${offset}, size ${size})`);
+		}
+		const data = buffer.subarray(offset, offset + size);
+
+		let image: DecodedIcoImage;
+		if (isPng(data)) {
+			const info = validateAndExtractPngInfo(data, i + 1);
+			image = { width: info.width, height: info.height, bitDepth: info.bitDepth, format: 'png', png: Buffer.from(data) };
+		} else {
+			const dib = decodeDib(data, i + 1);
+			image = { width: dib.image.width, height: dib.image.height, bitDepth: dib.bitDepth, format: 'bmp', png: encodePng(dib.image) };
+		}
+
+		// CUR files store the hotspot where ICO files keep planes and bit depth
+		if (type === 'CUR') {
+			image.hotspot = { x: buffer.readUInt16LE(entryOffset + 4), y: buffer.readUInt16LE(entryOffset + 6) };
+		}
+		images.push(image);
+	}
+
+	return { type, images };
+}
@@ -0,0 +1,117 @@
+/**
+ * SVG text utilities
+ * Lightweight string-based optimisation for SVG favicons
+ */
+
+/** Elements whose content is text, so its whitespace is meaningful */
+const TEXT_ELEMENTS =
+	/(<(?:text|style|script)\b[\s\S]*?<\/(?:text|style|script)\s*>)/i;
+
+/**
+ * Collapses whitespace between tags and runs of whitespace, leaving the
+ * content of text elements as written
+ */
+function collapseWhitespace(svg: string): string {
+	return svg
+		.split(TEXT_ELEMENTS)
+		.map((part, i) =>
+			// Odd parts are the captured text elements
+			i % 2 === 1
+				? part
+				: part.replace(/(^|>)\s+(?=<|$)/g, "$1").replace(/\s{2,}/g, " "),
+		)
+		.join("");
+}
+
+/**
+ * Removes editor cruft and redundant whitespace from an SVG document.
+ * Whitespace inside <text>, <style> and <script> is kept.
+ * @param svg - SVG source text
+ * @returns Optimised SVG text
+ */
+export function optimizeSvg(svg: string): string {
+	const cleaned = svg
+		.replace(/<\?xml[\s\S]*?\?>/g, "")
+		.replace(/<!DOCTYPE[\s\S]*?>/gi, "")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<metadata[\s\S]*?<\/metadata>/gi, "")
+		.replace(/<(sodipodi|inkscape):[\s\S]*?(\/>|<\/\1:[^>]*>)/g, "")
+		.replace(/\s+(sodipodi|inkscape):[\w-]+="[^"]*"/g, "")
+		.replace(/\s+xmlns:(sodipodi|inkscape)="[^"]*"/g, "");
+	return collapseWhitespace(cleaned).trim();
+}
+
+/**
+ * Inserts a `prefers-color-scheme: dark` style block into an SVG.
+ * `mode` is either "invert" or a colour applied as the fill of every shape.
+ * @param svg - SVG source text
+ * @param mode - Dark mode treatment
+ * @returns SVG text with the style block added
+ * @throws Error if the document has no <svg> element
+ */
+export function addSvgDarkMode(svg: string, mode: string): string {
+	const rule =
+		mode === "invert"
+			? ":root{filter:invert(1) hue-rotate(180deg)}"
+			: `*{fill:${mode}}`;
+	const style = `<style>@media (prefers-color-scheme:dark){${rule}}</style>`;
+	const match = /<svg\b[^>]*>/i.exec(svg);
+	if (!match) {
+		throw new Error("SVG document has no <svg> element");
+	}
+	const insertAt = match.index + match[0].length;
+	return svg.slice(0, insertAt) + style + svg.slice(insertAt);
+}
+
+const SVG_ROOT = /<svg\b([^>]*)>/i;
+
+function rootAttribute(attrs: string, name: string): string | undefined {
+	return new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, "i").exec(attrs)?.[1];
+}
+
+/**
+ * Turns a document into a nested <svg> filling its parent
+ */
+function nestSvg(svg: string, id: string): string {
+	const match = SVG_ROOT.exec(svg);
+	if (!match) {
+		throw new Error("SVG document has no <svg> element");
+	}
+	const attrs = match[1].replace(/\s(id|width|height)\s*=\s*"[^"]*"/gi, "");
+	const body = svg.slice(match.index + match[0].length);
+	return `<svg id="${id}" width="100%" height="100%"${attrs}>${body}`;
+}
+
+/**
+ * Combines a light and a dark SVG into one document that switches between
+ * them with a `prefers-color-scheme` media query. The result takes the light
+ * document's viewBox and size. Element IDs of the two documents must not
+ * collide.
+ * @param light - Light (default) SVG source text
+ * @param dark - Dark-mode SVG source text
+ * @returns Combined SVG text
+ * @throws Error if either document has no <svg> element
+ */
+export function combineSvgColorSchemes(light: string, dark: string): string {
+	const root = SVG_ROOT.exec(light);
+	if (!root) {
+		throw new Error("SVG document has no <svg> element");
+	}
+	const width = rootAttribute(root[1], "width");
+	const height = rootAttribute(root[1], "height");
+	const viewBox =
+		rootAttribute(root[1], "viewBox") ??
+		(width && height
+			? `0 0 ${Number.parseFloat(width)} ${Number.parseFloat(height)}`
+			: undefined);
+	const size = [
+		viewBox && `viewBox="${viewBox}"`,
+		width && `width="${width}"`,
+		height && `height="${height}"`,
+	]
+		.filter(Boolean)
+		.join(" ");
+	const style =
+		"<style>#favigen-dark{display:none}@media (prefers-color-scheme:dark){#favigen-light{display:none}#favigen-dark{display:inline}}</style>";
+	return `<svg xmlns="http://www.w3.org/2000/svg" ${size}>${style}${nestSvg(light, "favigen-light")}${nestSvg(dark, "favigen-dark")}</svg>`;
+}
@@ -0,0 +1,102 @@
+import { copyFile, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type FavigenOptions, generateFavicons } from "../src";
+import { CACHE_FILE_NAME } from "../src/core/cache";
+
+let dir: string;
+let input: string;
+let output: string;
+
+beforeEach(async () => {
+	dir = await mkdtemp(path.join(os.tmpdir(), "favigen-cache-"));
+	input = path.join(dir, "logo.png");
+	output = path.join(dir, "icons");
+	await copyFile(path.join(__dirname, "test-image.png"), input);
+});
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+function generate(options: Partial<FavigenOptions> = {}) {
+	return generateFavicons({
+		input,
+		output,
+		sizes: [16, 32],
+		platforms: ["web"],
+		yes: true,
+		...options,
+	});
+}
+
+const names = (files: Array<{ name: string }>) =>
+	files.map((file) => file.name).sort();
+
+describe("build cache", () => {
+	it("keeps every file when nothing changed", async () => {
+		const first = await generate();
+		const second = await generate();
+
+		expect(names(first.files)).toEqual([
+			"favicon.ico",
+			"icon-16x16.png",
+			"icon-32x32.png",
+		]);
+		expect(second.files).toEqual([]);
+		expect(second.upToDate.sort()).toEqual(
+			first.files.map((file) => file.path).sort(),
+		);
+	});
+
+	it("ignores options that do not change the output", async () => {
+		await generate();
+		const second = await generate({ backup: true });
+
+		expect(second.files).toEqual([]);
+	});
+
+	it("regenerates everything when an option changes", async () => {
+		await generate();
+		const second = await generate({ themeColor: "#ff0000", padding: 0.1 });
+
+		expect(second.upToDate).toEqual([]);
+		expect(second.files).toHaveLength(3);
+	});
+
+	it("regenerates everything when the source bytes change", async () => {
+		await generate();
+		await sharp(path.join(__dirname, "test-image.png")).flop().toFile(input);
+		const second = await generate();
+
+		expect(second.upToDate).toEqual([]);
+	});
+
+	it("regenerates a file edited since the last run", async () => {
+		await generate();
+		await writeFile(path.join(output, "icon-16x16.png"), "edited");
+		const second = await generate();
+
+		expect(names(second.files)).toEqual(["icon-16x16.png"]);
+	});
+
+	it("discards entries written by another favigen version", async () => {
+		await generate();
+		const cacheFile = path.join(output, CACHE_FILE_NAME);
+		const cache = JSON.parse(await readFile(cacheFile, "utf8"));
+		await writeFile(cacheFile, JSON.stringify({ ...cache, version: "0.0.0" }));
+		const second = await generate();
+
+		expect(second.upToDate).toEqual([]);
+	});
+
+	it("regenerates everything with force", async () => {
+		await generate();
+		const second = await generate({ force: true });
+
+		expect(second.upToDate).toEqual([]);
+		expect(second.files).toHaveLength(3);
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, type RgbaImage } from "../src/utils/png";
+import {
+	decodeIco,
+	encodeCur,
+	encodeIco,
+	hybridIcoFormat,
+} from "../src/utils/pngToIco";
+
+/** A square image with a gradient, a transparent corner and partial alpha */
+function testImage(size: number): RgbaImage {
+	const data = Buffer.alloc(size * size * 4);
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			const i = (y * size + x) * 4;
+			data[i] = (x * 7) % 256;
+			data[i + 1] = (y * 11) % 256;
+			data[i + 2] = (x + y) % 256;
+			data[i + 3] = x === 0 && y === 0 ? 0 : 255 - (x % 128);
+		}
+	}
+	return { width: size, height: size, data };
+}
+
+/**
+ * Builds a one-entry ICO holding a 2x2 24-bit BMP: red, green / blue,
+ * white, with the red pixel masked out by the AND mask
+ */
+function legacyIco(): Buffer {
+	const header = Buffer.alloc(40);
+	header.writeUInt32LE(40, 0);
+	header.writeInt32LE(2, 4);
+	header.writeInt32LE(4, 8); // XOR bitmap and AND mask
+	header.writeUInt16LE(1, 12);
+	header.writeUInt16LE(24, 14);
+	// Rows bottom-up, BGR, padded to 4 bytes
+	const xor = Buffer.from([
+		255, 0, 0, 255, 255, 255, 0, 0, 0, 0, 255, 0, 255, 0, 0, 0,
+	]);
+	const and = Buffer.from([0, 0, 0, 0, 0x80, 0, 0, 0]);
+	const image = Buffer.concat([header, xor, and]);
+
+	const dir = Buffer.alloc(22);
+	dir.writeUInt16LE(1, 2);
+	dir.writeUInt16LE(1, 4);
+	dir[6] = 2;
+	dir[7] = 2;
+	dir.writeUInt16LE(1, 10);
+	dir.writeUInt16LE(24, 12);
+	dir.writeUInt32LE(image.length, 14);
+	dir.writeUInt32LE(22, 18);
+	return Buffer.concat([dir, image]);
+}
+
+describe("ICO codec", () => {
+	it("round-trips PNG entries", () => {
+		const images = [16, 32].map(testImage);
+		const ico = decodeIco(encodeIco(images.map(encodePng)));
+
+		expect(ico.type).toBe("ICO");
+		expect(ico.images.map((image) => image.format)).toEqual(["png", "png"]);
+		ico.images.forEach((image, i) => {
+			expect(image.bitDepth).toBe(32);
+			expect(decodePng(image.png)).toEqual(images[i]);
+		});
+	});
+
+	it("round-trips BMP entries, alpha included", () => {
+		const images = [16, 48].map(testImage);
+		const ico = decodeIco(encodeIco(images.map(encodePng), { format: "bmp" }));
+
+		ico.images.forEach((image, i) => {
+			expect(image.format).toBe("bmp");
+			expect(image.bitDepth).toBe(32);
+			expect(decodePng(image.png)).toEqual(images[i]);
+		});
+	});
+
+	it("writes BMP for legacy sizes and PNG above 48px with hybridIcoFormat", () => {
+		const images = [16, 48, 64, 256].map(testImage);
+		const ico = decodeIco(
+			encodeIco(images.map(encodePng), { format: hybridIcoFormat }),
+		);
+
+		expect(ico.images.map((image) => image.format)).toEqual([
+			"bmp",
+			"bmp",
+			"png",
+			"png",
+		]);
+		// 256 is stored as 0 in the directory entry
+		expect(ico.images[3].width).toBe(256);
+		expect(decodePng(ico.images[3].png)).toEqual(images[3]);
+	});
+
+	it("takes transparency from the AND mask of 24-bit BMP entries", () => {
+		const [image] = decodeIco(legacyIco()).images;
+
+		expect(image).toMatchObject({
+			width: 2,
+			height: 2,
+			bitDepth: 24,
+			format: "bmp",
+		});
+		expect([...decodePng(image.png).data]).toEqual([
+			255, 0, 0, 0, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255,
+		]);
+	});
+
+	it("round-trips cursor hotspots", () => {
+		const cur = decodeIco(
+			encodeCur([
+				{ png: encodePng(testImage(32)), hotspot: { x: 3, y: 7 } },
+				{ png: encodePng(testImage(16)), hotspot: { x: 0, y: 15 } },
+			]),
+		);
+
+		expect(cur.type).toBe("CUR");
+		expect(cur.images.map((image) => image.hotspot)).toEqual([
+			{ x: 3, y: 7 },
+			{ x: 0, y: 15 },
+		]);
+	});
+
+	it("rejects files that are not ICO or CUR", () => {
+		expect(() => decodeIco(Buffer.from("not an icon"))).toThrow(
+			"Invalid ICO file",
+		);
+	});
+});
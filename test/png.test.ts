@@ -0,0 +1,105 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, type RgbaImage } from "../src/utils/png";
+
+/** A small image with a gradient, a transparent corner and partial alpha */
+function testImage(width = 7, height = 5): RgbaImage {
+	const data = Buffer.alloc(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			data[i] = (x * 40) % 256;
+			data[i + 1] = (y * 60) % 256;
+			data[i + 2] = (x * y * 17) % 256;
+			data[i + 3] = x === 0 && y === 0 ? 0 : 255 - x * 20;
+		}
+	}
+	return { width, height, data };
+}
+
+/** Decodes a PNG with sharp, as 8-bit RGBA */
+async function sharpPixels(png: Buffer): Promise<Buffer> {
+	return sharp(png).ensureAlpha().raw({ depth: "uchar" }).toBuffer();
+}
+
+function input(image: RgbaImage) {
+	return sharp(image.data, {
+		raw: { width: image.width, height: image.height, channels: 4 },
+	});
+}
+
+describe("PNG codec", () => {
+	it("round-trips RGBA pixels", () => {
+		const image = testImage();
+		expect(decodePng(encodePng(image))).toEqual(image);
+	});
+
+	it("writes PNGs that sharp decodes to the same pixels", async () => {
+		const image = testImage();
+		expect(await sharpPixels(encodePng(image))).toEqual(image.data);
+	});
+
+	it("rejects pixel data of the wrong length", () => {
+		expect(() =>
+			encodePng({ width: 2, height: 2, data: Buffer.alloc(15) }),
+		).toThrow("Expected 16 bytes");
+	});
+
+	// IHDR bit depth and color type of each variant, to be sure each is covered
+	it.each([
+		["RGBA", [8, 6], (image: sharp.Sharp) => image.png()],
+		["RGB", [8, 2], (image: sharp.Sharp) => image.removeAlpha().png()],
+		[
+			"grey",
+			[8, 0],
+			(image: sharp.Sharp) => image.removeAlpha().toColourspace("b-w").png(),
+		],
+		[
+			"grey with alpha",
+			[8, 4],
+			(image: sharp.Sharp) => image.toColourspace("b-w").png(),
+		],
+		["palette", [8, 3], (image: sharp.Sharp) => image.png({ palette: true })],
+		[
+			"4-bit palette",
+			[4, 3],
+			(image: sharp.Sharp) => image.png({ palette: true, colours: 16 }),
+		],
+		[
+			"1-bit palette",
+			[1, 3],
+			(image: sharp.Sharp) => image.png({ palette: true, colours: 2 }),
+		],
+	])("decodes %s PNGs written by sharp", async (_name, header, write) => {
+		const png = await write(input(testImage())).toBuffer();
+		expect([png[24], png[25]]).toEqual(header);
+		const decoded = decodePng(png);
+		expect(decoded.width).toBe(7);
+		expect(decoded.height).toBe(5);
+		expect(decoded.data).toEqual(await sharpPixels(png));
+	});
+
+	it("decodes 16-bit PNGs to 8 bits per channel", async () => {
+		const png = await input(testImage())
+			.toColourspace("rgb16")
+			.png()
+			.toBuffer();
+		expect(png[24]).toBe(16);
+		const decoded = decodePng(png);
+		const expected = await sharpPixels(png);
+		for (let i = 0; i < expected.length; i++) {
+			expect(Math.abs(decoded.data[i] - expected[i])).toBeLessThanOrEqual(1);
+		}
+	});
+
+	it("rejects interlaced PNGs", async () => {
+		const png = await input(testImage()).png({ progressive: true }).toBuffer();
+		expect(() => decodePng(png)).toThrow("Interlaced PNGs are not supported");
+	});
+
+	it("rejects buffers that are not PNGs", () => {
+		expect(() => decodePng(Buffer.from("GIF89a"))).toThrow(
+			"Invalid PNG signature",
+		);
+	});
+});
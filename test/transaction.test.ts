@@ -0,0 +1,148 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	abortTransaction,
+	beginTransaction,
+	commitTransaction,
+	stageFile,
+} from "../src/core/transaction";
+import type { Logger } from "../src/types";
+
+/** Destination path -> error code thrown by the next rename to it */
+const renameFailures = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("../src/utils", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../src/utils")>();
+	return {
+		...actual,
+		rename: async (from: string, to: string) => {
+			const code = renameFailures.get(to);
+			if (code) {
+				renameFailures.delete(to);
+				throw Object.assign(new Error(`${code}: rename ${from}`), { code });
+			}
+			return actual.rename(from, to);
+		},
+	};
+});
+
+const logger: Logger = { info() {}, success() {}, warn() {} };
+
+let output: string;
+
+beforeEach(async () => {
+	output = await mkdtemp(path.join(os.tmpdir(), "favigen-transaction-"));
+});
+
+afterEach(async () => {
+	renameFailures.clear();
+	await rm(output, { recursive: true, force: true });
+});
+
+const file = (name: string) => path.join(output, name);
+const read = (name: string) => readFile(file(name), "utf8");
+
+async function stage(
+	transaction: Awaited<ReturnType<typeof beginTransaction>>,
+	name: string,
+	data: string,
+) {
+	await writeFile(stageFile(transaction, file(name)), data);
+}
+
+describe("stageFile", () => {
+	it("writes in place without a transaction", () => {
+		expect(stageFile(undefined, file("a.png"))).toBe(file("a.png"));
+	});
+
+	it("maps each output path to one staged path", async () => {
+		const transaction = await beginTransaction(output, false);
+		const staged = stageFile(transaction, file("a.png"));
+		expect(path.dirname(staged)).toBe(transaction.dir);
+		expect(stageFile(transaction, file("a.png"))).toBe(staged);
+		expect(stageFile(transaction, file("b.png"))).not.toBe(staged);
+		await abortTransaction(transaction);
+	});
+});
+
+describe("commitTransaction", () => {
+	it("moves staged files into place and removes the staging directory", async () => {
+		await writeFile(file("a.png"), "old a");
+		const transaction = await beginTransaction(output, false);
+		await stage(transaction, "a.png", "new a");
+		await stage(transaction, "b.png", "new b");
+
+		await commitTransaction(transaction, logger);
+
+		expect(await read("a.png")).toBe("new a");
+		expect(await read("b.png")).toBe("new b");
+		expect((await readdir(output)).sort()).toEqual(["a.png", "b.png"]);
+	});
+
+	it("keeps replaced files as .backup when asked", async () => {
+		await writeFile(file("a.png"), "old a");
+		const transaction = await beginTransaction(output, true);
+		await stage(transaction, "a.png", "new a");
+		await stage(transaction, "b.png", "new b");
+
+		await commitTransaction(transaction, logger);
+
+		expect(await read("a.png.backup")).toBe("old a");
+		expect(await readdir(output)).not.toContain("b.png.backup");
+	});
+
+	it("falls back to copying when the staging directory is on another filesystem", async () => {
+		await writeFile(file("a.png"), "old a");
+		const transaction = await beginTransaction(output, false);
+		await stage(transaction, "a.png", "new a");
+		renameFailures.set(file("a.png"), "EXDEV");
+
+		await commitTransaction(transaction, logger);
+
+		expect(await read("a.png")).toBe("new a");
+		expect(await readdir(output)).toEqual(["a.png"]);
+	});
+
+	it("restores the previous files and backups when a move fails", async () => {
+		await writeFile(file("a.png"), "old a");
+		await writeFile(file("c.png"), "old c");
+		await writeFile(file("c.png.backup"), "older c");
+		const transaction = await beginTransaction(output, true);
+		await stage(transaction, "a.png", "new a");
+		await stage(transaction, "b.png", "new b");
+		await stage(transaction, "c.png", "new c");
+		renameFailures.set(file("c.png"), "EACCES");
+		const warn = vi.fn();
+
+		await expect(
+			commitTransaction(transaction, { ...logger, warn }),
+		).rejects.toMatchObject({ code: "EACCES" });
+
+		expect(await read("a.png")).toBe("old a");
+		expect(await read("c.png")).toBe("old c");
+		expect(await read("c.png.backup")).toBe("older c");
+		expect((await readdir(output)).sort()).toEqual([
+			"a.png",
+			"c.png",
+			"c.png.backup",
+		]);
+		expect(warn).toHaveBeenCalledWith(
+			"↩ Rolled back 3 file(s) after a failed write",
+		);
+	});
+});
+
+describe("abortTransaction", () => {
+	it("leaves the output untouched", async () => {
+		await writeFile(file("a.png"), "old a");
+		const transaction = await beginTransaction(output, true);
+		await stage(transaction, "a.png", "new a");
+
+		await abortTransaction(transaction);
+
+		expect(await readdir(output)).toEqual(["a.png"]);
+		expect(await read("a.png")).toBe("old a");
+	});
+});
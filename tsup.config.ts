@@ -4,7 +4,8 @@ const isDev = process.env.npm_lifecycle_event === "dev";
 
 export default defineConfig({
   clean: true,
-  entry: ["src/generator.ts"],
+  entry: ["src/generator.ts", "src/index.ts"],
+  dts: { entry: "src/index.ts" },
   format: ["esm"],
   minify: !isDev,
   target: "esnext",